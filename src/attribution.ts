@@ -0,0 +1,100 @@
+import { type AuthorRules, isAIAgent, type PullRequestAuthor } from './author-policy';
+import type { PullRequestEvaluation } from './evaluation-engine';
+import type { PullRequestCommit } from './pull-request-changes';
+
+export const ATTRIBUTION_INDICATOR = 'ai-attribution';
+export const MISSING_ATTRIBUTION_INDICATOR = 'missing-ai-attribution';
+
+// Names an AI tool signs its work with; the trailing `\b` keeps e.g. "cursory" out.
+// Devin and Jules sign as their bot accounts, since both are common first names
+const AI_TOOL = String.raw`(?:claude|copilot|cursor|chatgpt|codex|openai|devin-ai|aider|gemini|google-labs-jules|windsurf|codeium|openhands)\b`;
+
+/**
+ * Trailers and signatures that credit an AI tool, each matched against a whole line.
+ * Trailers count when their name, the part before any `<email>`, names an AI tool, so
+ * people credited with e.g. an @openai.com address don't; Claude's noreply address is
+ * the one email that identifies a tool.
+ */
+const ATTRIBUTION_PATTERNS: RegExp[] = [
+  new RegExp(
+    String.raw`^(?:co-authored|assisted|generated)-by:[^<\n]*\b${AI_TOOL}[^<\n]*(?:<.*)?$`,
+    'im'
+  ),
+  /^co-authored-by:.*<noreply@anthropic\.com>.*$/im,
+  new RegExp(
+    String.raw`^.*generated (?:with|by) \[?(?:github )?(?:claude code|${AI_TOOL}).*$`,
+    'im'
+  ),
+];
+
+export interface Attribution {
+  /** The matched trailer or signature line. */
+  signature: string;
+  /** Where it was found, e.g. `commit 1a2b3c4` or `the PR description`. */
+  source: string;
+}
+
+/** The first AI attribution in the PR's commits or description, if any. */
+export function findAttribution(
+  commits: PullRequestCommit[],
+  description?: string | null
+): Attribution | undefined {
+  const sources = [
+    ...commits.map((commit) => ({
+      text: commit.commit.message,
+      source: `commit ${commit.sha.slice(0, 7)}`,
+    })),
+    { text: description ?? '', source: 'the PR description' },
+  ];
+  for (const { text, source } of sources) {
+    for (const pattern of ATTRIBUTION_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) {
+        return { signature: match[0].trim(), source };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The verdict of the `require-attribution` policy: AI-generated when a commit or the
+ * description credits an AI tool or an AI agent account opened the PR, and
+ * human-written otherwise. Deterministic, so it is always given with full confidence.
+ */
+export function evaluateAttribution(
+  commits: PullRequestCommit[],
+  description: string | null | undefined,
+  author: PullRequestAuthor,
+  rules?: AuthorRules
+): PullRequestEvaluation {
+  const attribution = findAttribution(commits, description);
+  let reasoning: string;
+  if (attribution) {
+    reasoning = `Found the AI attribution "${attribution.signature}" in ${attribution.source}.`;
+  } else if (isAIAgent(author.login, rules)) {
+    reasoning = `The pull request was opened by @${author.login}, a known AI coding agent account.`;
+  } else {
+    return {
+      overallResult: {
+        isHumanLike: true,
+        confidence: 100,
+        reasoning: `Neither the ${commits.length} commit(s) nor the PR description carry a recognized AI attribution trailer or signature.`,
+        indicators: [MISSING_ATTRIBUTION_INDICATOR],
+        status: 'ok',
+      },
+      fileResults: [],
+    };
+  }
+
+  return {
+    overallResult: {
+      isHumanLike: false,
+      confidence: 100,
+      reasoning,
+      indicators: [ATTRIBUTION_INDICATOR],
+      status: 'ok',
+    },
+    fileResults: [],
+  };
+}
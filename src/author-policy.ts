@@ -0,0 +1,182 @@
+import { parse as parseYaml } from 'yaml';
+import type { PullRequestEvaluation } from './evaluation-engine';
+import type { LLMEvaluationResult } from './llm-evaluator';
+import { type ContentsClient, fetchRepoFile } from './repo-config';
+
+/**
+ * Accounts that only ever open PRs written by an AI coding agent. A PR from one of
+ * them is judged AI-generated whatever its files look like.
+ */
+export const KNOWN_AI_AGENTS = [
+  'Copilot',
+  'copilot-swe-agent',
+  'devin-ai-integration',
+  'openhands-agent',
+  'sweep-ai',
+  'codegen-sh',
+  'google-labs-jules',
+  'chatgpt-codex-connector',
+] as const;
+
+export const AI_AGENT_INDICATOR = 'ai-agent-author';
+
+export interface PullRequestAuthor {
+  login: string;
+  /** `User`, `Bot` or `Organization`, as GitHub reports it. */
+  type: string;
+}
+
+/** The `authors` section of the repository config. */
+export interface AuthorRules {
+  /** Logins whose PRs are never evaluated. */
+  exempt?: string[];
+  /** Skip every account of type Bot, except known AI agents. */
+  exemptBots?: boolean;
+  /** `org/team-slug` teams whose members' PRs are never evaluated. */
+  exemptTeams?: string[];
+  /** `owner/repo/path` of a YAML list of exempt logins shared across repositories. */
+  allowlist?: string;
+  /** More AI agent accounts on top of KNOWN_AI_AGENTS. */
+  aiAgents?: string[];
+}
+
+export type TeamMembershipRef = {
+  org: string;
+  team_slug: string;
+  username: string;
+};
+
+/** The slice of the Octokit API used for team lookups. */
+export interface TeamsClient {
+  rest: {
+    teams: {
+      getMembershipForUserInOrg(params: TeamMembershipRef): Promise<{ data: { state: string } }>;
+    };
+  };
+}
+
+export function isAIAgent(login: string, rules: AuthorRules = {}): boolean {
+  const name = normalizeLogin(login);
+  return [...KNOWN_AI_AGENTS, ...(rules.aiAgents ?? [])].some(
+    (agent) => normalizeLogin(agent) === name
+  );
+}
+
+/**
+ * Why the author's PRs aren't evaluated, or undefined when they are. Team and
+ * allowlist lookups that fail are warned about and don't exempt anyone.
+ */
+export async function findExemption(
+  author: PullRequestAuthor,
+  rules: AuthorRules | undefined,
+  octokit: TeamsClient & ContentsClient,
+  warn: (message: string) => void
+): Promise<string | undefined> {
+  // Agents are bots too, but exempting them would skip the PRs this action is for
+  if (!rules || isAIAgent(author.login, rules)) {
+    return undefined;
+  }
+
+  const login = normalizeLogin(author.login);
+  if ((rules.exempt ?? []).some((exempt) => normalizeLogin(exempt) === login)) {
+    return `@${author.login} is on the exempt list`;
+  }
+  if (rules.exemptBots && author.type === 'Bot') {
+    return `@${author.login} is a bot account`;
+  }
+
+  for (const team of rules.exemptTeams ?? []) {
+    const [org, slug] = team.split('/');
+    try {
+      const { data } = await octokit.rest.teams.getMembershipForUserInOrg({
+        org,
+        team_slug: slug,
+        username: author.login,
+      });
+      if (data.state === 'active') {
+        return `@${author.login} is a member of ${team}`;
+      }
+    } catch (error) {
+      // Non-members are a 404; anything else usually means the token can't read the org
+      if ((error as { status?: number }).status !== 404) {
+        warn(`Couldn't check membership of ${team}: ${describeError(error)}`);
+      }
+    }
+  }
+
+  if (rules.allowlist) {
+    try {
+      const logins = await fetchAllowlist(octokit, rules.allowlist);
+      if (logins.some((allowed) => normalizeLogin(allowed) === login)) {
+        return `@${author.login} is on the allowlist in ${rules.allowlist}`;
+      }
+    } catch (error) {
+      warn(`Couldn't read the allowlist ${rules.allowlist}: ${describeError(error)}`);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Mark a PR opened by an AI agent account as AI-generated, overall and file by file, so
+ * annotations, reviews and reports don't flag files the verdict no longer holds against
+ * the author. The account is treated like a Claude Code signature: no file verdict
+ * overrides it.
+ */
+export function applyAIAgentAuthor(
+  evaluation: PullRequestEvaluation,
+  author: PullRequestAuthor,
+  rules?: AuthorRules
+): PullRequestEvaluation {
+  if (!isAIAgent(author.login, rules)) {
+    return evaluation;
+  }
+
+  const { overallResult, fileResults } = evaluation;
+  return {
+    overallResult: {
+      ...markAgentAuthored(overallResult, author.login),
+      contextSignals: [AI_AGENT_INDICATOR, ...(overallResult.contextSignals ?? [])],
+    },
+    fileResults: fileResults.map((file) => ({
+      ...file,
+      result: markAgentAuthored(file.result, author.login),
+    })),
+  };
+}
+
+function markAgentAuthored(result: LLMEvaluationResult, login: string): LLMEvaluationResult {
+  return {
+    ...result,
+    isHumanLike: false,
+    confidence: 100,
+    status: 'ok',
+    reasoning: `The pull request was opened by @${login}, a known AI coding agent account. ${result.reasoning}`,
+    indicators: [AI_AGENT_INDICATOR, ...result.indicators],
+  };
+}
+
+async function fetchAllowlist(octokit: ContentsClient, allowlist: string): Promise<string[]> {
+  const [owner, repo, ...path] = allowlist.split('/');
+  // Read from the default branch, where the organization maintains it
+  const text = await fetchRepoFile(octokit, { owner, repo, path: path.join('/') });
+  if (text === undefined) {
+    throw new Error('file not found');
+  }
+
+  const logins: unknown = parseYaml(text);
+  if (!Array.isArray(logins) || logins.some((login) => typeof login !== 'string')) {
+    throw new Error('expected a YAML list of logins');
+  }
+  return logins;
+}
+
+// Logins are case-insensitive, and apps show up with or without their `[bot]` suffix
+function normalizeLogin(login: string): string {
+  return login.toLowerCase().replace(/\[bot\]$/, '');
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
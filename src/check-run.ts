@@ -0,0 +1,166 @@
+import { getAddedLines, parsePatch } from './diff';
+import { formatEvidenceLocation } from './evidence';
+import type { FileAnalysis, IndicatorEvidence, LLMEvaluationResult } from './llm-evaluator';
+import { DEFAULT_POLICY, flaggedDirection, isFlagged, type Policy } from './policy';
+
+export const CHECK_RUN_NAME = 'Only Robots';
+
+// GitHub rejects check run requests with more annotations than this
+export const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+// Annotation messages are capped at 64 KB; reasoning never needs that much room
+const MAX_MESSAGE_LENGTH = 2000;
+
+export type AnnotationLevel = 'notice' | 'warning';
+
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: AnnotationLevel;
+  title: string;
+  message: string;
+  raw_details?: string;
+}
+
+export interface CheckRunOutput {
+  title: string;
+  summary: string;
+  text?: string;
+}
+
+export type CheckRunParams = {
+  owner: string;
+  repo: string;
+  name: string;
+  head_sha: string;
+  conclusion: 'success' | 'failure' | 'neutral';
+  output: CheckRunOutput;
+};
+
+/**
+ * The slice of the Octokit API used for check runs. This and the other `*Client`
+ * interfaces are declared locally because the Octokit types of @actions/github and
+ * @octokit/rest don't match each other. Their params are type aliases rather than
+ * interfaces, since only aliases satisfy Octokit's index-signature params.
+ */
+export interface ChecksClient {
+  rest: {
+    checks: {
+      create(
+        params: CheckRunParams & {
+          status: 'completed';
+          output: CheckRunOutput & { annotations?: CheckAnnotation[] };
+        }
+      ): Promise<{ data: { id: number; html_url: string | null } }>;
+      update(params: {
+        owner: string;
+        repo: string;
+        check_run_id: number;
+        output: CheckRunOutput & { annotations: CheckAnnotation[] };
+      }): Promise<unknown>;
+    };
+  };
+}
+
+/**
+ * Annotations for the Files tab: one on each file the policy flags, anchored to its
+ * first added line, and one for each line range cited as evidence. Evidence of the
+ * authorship the policy doesn't flag is informational and always a `notice`.
+ */
+export function buildAnnotations(
+  fileResults: FileAnalysis[],
+  overallResult: LLMEvaluationResult,
+  level: AnnotationLevel,
+  policy: Policy = DEFAULT_POLICY
+): CheckAnnotation[] {
+  const annotations: CheckAnnotation[] = [];
+  const flagged = flaggedDirection(policy);
+
+  for (const file of fileResults) {
+    if (!isFlagged(file.result, policy)) {
+      continue;
+    }
+    const line = getAddedLines(parsePatch(file.patch))[0]?.newLine ?? 1;
+    annotations.push({
+      path: file.filename,
+      start_line: line,
+      end_line: line,
+      annotation_level: level,
+      title: `Looks ${file.result.isHumanLike ? 'human-written' : 'AI-generated'} (${file.result.confidence.toFixed(1)}% confidence)`,
+      message: truncate(file.result.reasoning),
+    });
+  }
+
+  // In pr mode the overall verdict cites lines too, often the same ones as the files
+  const seen = new Set<string>();
+  const evidence = [
+    ...fileResults.flatMap((file) => file.result.evidence ?? []),
+    ...(overallResult.evidence ?? []),
+  ];
+  for (const item of evidence) {
+    const key = `${formatEvidenceLocation(item)} ${item.indicator}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    annotations.push(evidenceAnnotation(item, item.direction === flagged ? level : 'notice'));
+  }
+
+  return annotations;
+}
+
+/**
+ * Create a completed check run with its annotations. The first batch goes out with
+ * the run itself; the rest are appended through updates, as GitHub only accepts 50
+ * annotations per request.
+ */
+export async function createCheckRun(
+  octokit: ChecksClient,
+  params: CheckRunParams,
+  annotations: CheckAnnotation[] = []
+): Promise<{ id: number; html_url: string | null }> {
+  const [first = [], ...rest] = batch(annotations, MAX_ANNOTATIONS_PER_REQUEST);
+
+  const { data } = await octokit.rest.checks.create({
+    ...params,
+    status: 'completed',
+    output: first.length > 0 ? { ...params.output, annotations: first } : params.output,
+  });
+
+  for (const annotationBatch of rest) {
+    await octokit.rest.checks.update({
+      owner: params.owner,
+      repo: params.repo,
+      check_run_id: data.id,
+      output: { ...params.output, annotations: annotationBatch },
+    });
+  }
+
+  return data;
+}
+
+function evidenceAnnotation(item: IndicatorEvidence, level: AnnotationLevel): CheckAnnotation {
+  const human = item.direction === 'human';
+  return {
+    path: item.filename,
+    start_line: item.startLine,
+    end_line: item.endLine,
+    annotation_level: level,
+    title: `${item.indicator} (${human ? 'human' : 'AI'})`,
+    message: `Cited as evidence of ${human ? 'human' : 'AI'} authorship: ${item.indicator}`,
+    raw_details: truncate(item.snippet),
+  };
+}
+
+function batch<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH - 3)}...` : text;
+}
@@ -1,7 +1,33 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import { Octokit } from '@octokit/rest';
-import { LLMEvaluator, type FileToEvaluate } from './llm-evaluator';
+import { EVALUATION_MODES, isEvaluationMode, isValidJudgment, LLMEvaluator } from './llm-evaluator';
+import {
+  createPullRequestEvaluator,
+  EVALUATION_ENGINES,
+  type EvaluationEngine,
+  isEvaluationEngine,
+  type PullRequestEvaluation,
+} from './evaluation-engine';
+import { evaluateAttribution } from './attribution';
+import { applyAIAgentAuthor, findExemption } from './author-policy';
+import { buildAnnotations, CHECK_RUN_NAME, createCheckRun } from './check-run';
+import { parseGitAttributes, type SkippedFile, selectFiles } from './file-selection';
+import { DEFAULT_CACHE_DIR, FileSystemJudgmentCache } from './judgment-cache';
+import { createLLMProvider, MissingAPIKeyError } from './llm-provider';
+import {
+  buildHumanDetectionComment,
+  fetchBotLogin,
+  isResolvedCommentAction,
+  RESOLVED_COMMENT_ACTIONS,
+  resolveStickyComment,
+  upsertStickyComment,
+} from './pr-comment';
+import { applyPolicy, DEFAULT_POLICY, isPolicy, POLICIES } from './policy';
+import { fetchPullRequestCommits, fetchPullRequestFiles } from './pull-request-changes';
+import { fetchRepoFile, loadRepoConfig } from './repo-config';
+import { renderCheckRunOutput, renderNoFilesOutput } from './report';
+import { isTone, loadTemplates, TONES } from './templates';
 import type { ActionConfig } from './types';
 
 const program = new Command();
@@ -11,7 +37,39 @@ program
   .description('GitHub Action to ensure code is written by AI agents, not humans')
   .version('1.0.0')
   .requiredOption('--github-token <token>', 'GitHub token for API access')
-  .requiredOption('--openai-api-key <key>', 'OpenAI API key for LLM evaluation')
+  .option('--openai-api-key <key>', 'OpenAI API key for LLM evaluation')
+  .option('--llm-provider <provider>', 'LLM provider (openai, anthropic, azure, openai-compatible)')
+  .option('--llm-model <model>', 'Model to use (Azure: deployment name)')
+  .option('--llm-base-url <url>', 'Base URL for Azure or OpenAI-compatible providers')
+  .option('--llm-api-key <key>', 'API key for the configured provider')
+  .option('--llm-max-retries <number>', 'Retries for transient LLM failures', parseInt)
+  .option('--llm-timeout <seconds>', 'Per-request LLM timeout in seconds', parseInt)
+  .option('--concurrency <number>', 'Maximum number of files evaluated in parallel', parseInt)
+  .option(
+    '--evaluation-mode <mode>',
+    'Judge each file separately (file) or the whole PR at once (pr)'
+  )
+  .option('--token-budget <tokens>', 'Approximate prompt token budget in pr mode', parseInt)
+  .option('--cache-dir <dir>', 'Directory for cached judgments', DEFAULT_CACHE_DIR)
+  .option('--skip-cache', 'Ignore cached judgments and re-judge every file')
+  .option('--engine <engine>', 'Evaluation engine: llm, heuristic or ensemble (default: llm)')
+  .option(
+    '--heuristic-weight <weight>',
+    'Weight of the heuristic in the ensemble (0-1)',
+    parseFloat
+  )
+  .option('--post-comment', 'Post or update a comment on the PR when human code is detected')
+  .option(
+    '--resolved-comment <action>',
+    'What to do with the comment once the PR passes: update or delete (default: update)'
+  )
+  .option('--tone <tone>', 'Built-in wording: playful or professional (default: playful)')
+  .option('--templates-path <dir>', 'Directory of Markdown templates overriding the built-in ones')
+  .option(
+    '--policy <policy>',
+    'robots-only, humans-only, require-attribution or report-only (default: robots-only)'
+  )
+  .option('--config <file>', 'Repository config file (e.g. .github/onlyrobots.yml)')
   .requiredOption('--owner <owner>', 'Repository owner')
   .requiredOption('--repo <repo>', 'Repository name')
   .requiredOption('--pr-number <number>', 'Pull request number', parseInt)
@@ -19,6 +77,25 @@ program
     const config: ActionConfig = {
       githubToken: options.githubToken,
       openaiApiKey: options.openaiApiKey,
+      llmProvider: options.llmProvider,
+      llmModel: options.llmModel,
+      llmBaseUrl: options.llmBaseUrl,
+      llmApiKey: options.llmApiKey,
+      llmMaxRetries: options.llmMaxRetries,
+      llmTimeoutSeconds: options.llmTimeout,
+      concurrency: options.concurrency,
+      evaluationMode: options.evaluationMode,
+      tokenBudget: options.tokenBudget,
+      cacheDir: options.cacheDir,
+      skipCache: options.skipCache,
+      engine: options.engine,
+      heuristicWeight: options.heuristicWeight,
+      postComment: options.postComment,
+      resolvedComment: options.resolvedComment,
+      tone: options.tone,
+      templatesPath: options.templatesPath,
+      configPath: options.config,
+      policy: options.policy,
       owner: options.owner,
       repo: options.repo,
       prNumber: options.prNumber,
@@ -35,159 +112,234 @@ program
 async function runAction(config: ActionConfig): Promise<void> {
   console.log(`🤖 Evaluating PR #${config.prNumber} in ${config.owner}/${config.repo}`);
 
+  const evaluationMode = config.evaluationMode ?? 'file';
+  if (!isEvaluationMode(evaluationMode)) {
+    throw new Error(
+      `Unknown evaluation mode "${evaluationMode}" (expected one of: ${EVALUATION_MODES.join(', ')})`
+    );
+  }
+
+  const engineName = config.engine ?? 'llm';
+  if (!isEvaluationEngine(engineName)) {
+    throw new Error(
+      `Unknown engine "${engineName}" (expected one of: ${EVALUATION_ENGINES.join(', ')})`
+    );
+  }
+
+  const resolvedComment = config.resolvedComment ?? 'update';
+  if (!isResolvedCommentAction(resolvedComment)) {
+    throw new Error(
+      `Unknown resolved-comment "${resolvedComment}" (expected one of: ${RESOLVED_COMMENT_ACTIONS.join(', ')})`
+    );
+  }
+
+  const tone = config.tone ?? 'playful';
+  if (!isTone(tone)) {
+    throw new Error(`Unknown tone "${tone}" (expected one of: ${TONES.join(', ')})`);
+  }
+
+  const policyName = config.policy ?? DEFAULT_POLICY;
+  if (!isPolicy(policyName)) {
+    throw new Error(`Unknown policy "${policyName}" (expected one of: ${POLICIES.join(', ')})`);
+  }
+  const repoConfig = config.configPath ? await loadRepoConfig(config.configPath) : undefined;
+  const policy = repoConfig?.policy ?? policyName;
+  const templates = await loadTemplates(
+    repoConfig?.templates?.tone ?? tone,
+    repoConfig?.templates?.path ?? config.templatesPath,
+    repoConfig?.templates?.overrides,
+    policy
+  );
+
   // Initialize clients
   const octokit = new Octokit({ auth: config.githubToken });
-  const evaluator = new LLMEvaluator({ OPENAI_API_KEY: config.openaiApiKey });
 
-  // Get PR details
-  const { data: pr } = await octokit.rest.pulls.get({
-    owner: config.owner,
-    repo: config.repo,
-    pull_number: config.prNumber,
+  let engine: EvaluationEngine = engineName;
+  let llmEvaluator: LLMEvaluator | undefined;
+  if (engine !== 'heuristic' && policy !== 'require-attribution') {
+    try {
+      llmEvaluator = new LLMEvaluator({
+        provider: createLLMProvider({
+          provider: repoConfig?.provider?.name ?? config.llmProvider,
+          apiKey: config.llmApiKey,
+          openaiApiKey: config.openaiApiKey,
+          model: repoConfig?.provider?.model ?? config.llmModel,
+          baseUrl: repoConfig?.provider?.baseUrl ?? config.llmBaseUrl,
+        }),
+        maxRetries: config.llmMaxRetries,
+        timeoutMs: config.llmTimeoutSeconds ? config.llmTimeoutSeconds * 1000 : undefined,
+        concurrency: config.concurrency,
+        logger: console.log,
+        warn: console.warn,
+        cache: new FileSystemJudgmentCache(config.cacheDir),
+        skipCacheReads: config.skipCache,
+        aiConfidenceThreshold: repoConfig?.thresholds?.aiConfidence,
+        signalWeights: repoConfig?.signals,
+      });
+    } catch (error) {
+      if (!(error instanceof MissingAPIKeyError)) {
+        throw error;
+      }
+      console.warn(`⚠️  ${error.message}, falling back to the offline heuristic engine`);
+      engine = 'heuristic';
+    }
+  }
+
+  const evaluator = createPullRequestEvaluator({
+    engine,
+    llmEvaluator,
+    heuristicWeight: config.heuristicWeight,
   });
 
-  // Get changed files
-  const { data: files } = await octokit.rest.pulls.listFiles({
+  // Get PR details
+  const { data: pr } = await octokit.rest.pulls.get({
     owner: config.owner,
     repo: config.repo,
     pull_number: config.prNumber,
   });
 
-  // Filter and prepare files for evaluation
-  const filesToEvaluate: FileToEvaluate[] = files
-    .filter((file) => file.status !== 'removed' && isCodeFile(file.filename))
-    .map((file) => ({
-      filename: file.filename,
-      patch: file.patch || '',
-    }))
-    .filter((file) => file.patch.length > 0);
-
-  if (filesToEvaluate.length === 0) {
-    console.log('✅ No code files to evaluate');
+  const author = { login: pr.user.login, type: pr.user.type };
+  const exemption = await findExemption(author, repoConfig?.authors, octokit, console.warn);
+  if (exemption) {
+    console.log(`⏭️  ${exemption}, so this pull request was not evaluated`);
     return;
   }
 
-  console.log(`📁 Evaluating ${filesToEvaluate.length} file(s)...`);
+  const pullRequest = { owner: config.owner, repo: config.repo, pull_number: config.prNumber };
+  const refs = { base: pr.base.sha, head: pr.head.sha };
+  const commits = await fetchPullRequestCommits(octokit, pullRequest, refs, console.warn);
 
-  // Evaluate using LLM
-  const evaluation = await evaluator.evaluatePullRequest(filesToEvaluate);
-  const { overallResult, fileResults } = evaluation;
+  let evaluation: PullRequestEvaluation;
+  let fileCount = 0;
+  let skippedFiles: SkippedFile[] = [];
+  if (policy === 'require-attribution') {
+    // Decided by the commits and description alone, so no LLM is called
+    evaluation = evaluateAttribution(commits, pr.body, author, repoConfig?.authors);
+  } else {
+    // Get changed files
+    const files = await fetchPullRequestFiles(octokit, pullRequest, console.warn);
+    const gitAttributes = await fetchRepoFile(octokit, {
+      owner: config.owner,
+      repo: config.repo,
+      path: '.gitattributes',
+      ref: pr.base.sha,
+    });
+    const selection = selectFiles(files, {
+      paths: repoConfig?.paths,
+      gitAttributes: gitAttributes ? parseGitAttributes(gitAttributes) : undefined,
+    });
 
-  // Create check run
-  const checkRunResponse = await octokit.rest.checks.create({
-    owner: config.owner,
-    repo: config.repo,
-    name: 'Only Robots',
-    head_sha: pr.head.sha,
-    status: 'completed',
-    conclusion: overallResult.isHumanLike ? 'failure' : 'success',
-    output: {
-      title: overallResult.isHumanLike
-        ? '🚫 No humans allowed! Flesh-based coding detected!'
-        : '🤖 Welcome, silicon comrade! AI excellence confirmed!',
-      summary: buildSummary(filesToEvaluate.length, overallResult),
-      text: buildDetails(overallResult, fileResults),
-    },
-  });
+    const filesToEvaluate = selection.files;
+    skippedFiles = selection.skipped;
+    fileCount = filesToEvaluate.length;
+
+    if (filesToEvaluate.length === 0) {
+      const checkRun = await createCheckRun(octokit, {
+        owner: config.owner,
+        repo: config.repo,
+        name: CHECK_RUN_NAME,
+        head_sha: pr.head.sha,
+        conclusion: 'success',
+        output: renderNoFilesOutput(skippedFiles),
+      });
+      console.log(`✅ No code files to evaluate (${skippedFiles.length} file(s) skipped)`);
+      console.log(`📊 Check run: ${checkRun.html_url}`);
+      return;
+    }
 
-  // Output results
-  if (overallResult.isHumanLike) {
     console.log(
-      `❌ FAILED: Code appears to be human-written (${overallResult.confidence.toFixed(1)}% confidence)`
+      `📁 Evaluating ${filesToEvaluate.length} file(s), skipping ${skippedFiles.length}...`
     );
-    console.log(`📊 Check run: ${checkRunResponse.data.html_url}`);
-    process.exit(1);
-  } else {
-    console.log(
-      `✅ PASSED: Code appears to be AI-generated (${overallResult.confidence.toFixed(1)}% confidence)`
+
+    // Evaluate using LLM with PR context
+    evaluation = applyAIAgentAuthor(
+      await evaluator.evaluatePullRequest(
+        filesToEvaluate,
+        {
+          title: pr.title,
+          description: pr.body || undefined,
+          commitMessages: commits.map((c) => c.commit.message),
+        },
+        { mode: evaluationMode, tokenBudget: config.tokenBudget }
+      ),
+      author,
+      repoConfig?.authors
     );
-    console.log(`📊 Check run: ${checkRunResponse.data.html_url}`);
   }
-}
-
-function buildSummary(fileCount: number, overallResult: any): string {
-  const isHuman = overallResult.isHumanLike;
-
-  let summary = isHuman
-    ? `🚨 ALERT: Human detected! Scanned ${fileCount} file(s) for silicon purity.\n\n`
-    : `🎉 Success! Scanned ${fileCount} file(s) - all systems are AI-powered!\n\n`;
-
-  summary += isHuman
-    ? `**🧬 Biological Code Analysis:** ${overallResult.reasoning}\n\n`
-    : `**🤖 AI Excellence Report:** ${overallResult.reasoning}\n\n`;
+  const { overallResult, fileResults } = evaluation;
+  const output = renderCheckRunOutput(evaluation, { templates, fileCount, skippedFiles, policy });
 
-  summary += `**🎯 Detection Confidence:** ${overallResult.confidence.toFixed(1)}%\n\n`;
+  // Without a valid judgment there is nothing to hold the author to
+  if (!isValidJudgment(overallResult)) {
+    const checkRun = await createCheckRun(octokit, {
+      owner: config.owner,
+      repo: config.repo,
+      name: CHECK_RUN_NAME,
+      head_sha: pr.head.sha,
+      conclusion: 'neutral',
+      output,
+    });
 
-  if (overallResult.indicators.length > 0) {
-    summary += isHuman ? '**🔍 Human Fingerprints Found:**\n' : '**✨ AI Signatures Detected:**\n';
-    for (const indicator of overallResult.indicators) {
-      summary += `- ${indicator}\n`;
-    }
+    console.log(`⚠️  INCONCLUSIVE: ${overallResult.reasoning}`);
+    console.log(`📊 Check run: ${checkRun.html_url}`);
+    return;
   }
 
-  return summary;
-}
+  // Create check run; a policy violation fails the command, so flagged lines are warnings
+  const outcome = applyPolicy(policy, overallResult);
+  const checkRun = await createCheckRun(
+    octokit,
+    {
+      owner: config.owner,
+      repo: config.repo,
+      name: CHECK_RUN_NAME,
+      head_sha: pr.head.sha,
+      conclusion: outcome.conclusion,
+      output,
+    },
+    buildAnnotations(fileResults, overallResult, 'warning', policy)
+  );
 
-function buildDetails(overallResult: any, fileResults: any[]): string {
-  let details = '';
-
-  if (overallResult.isHumanLike) {
-    details += '## Files flagged as potentially human-written:\n\n';
-    for (const fileResult of fileResults) {
-      if (fileResult.result.isHumanLike) {
-        details += `### ${fileResult.filename}\n`;
-        details += `**Confidence:** ${fileResult.result.confidence.toFixed(1)}%\n\n`;
-        details += `**Reasoning:** ${fileResult.result.reasoning}\n\n`;
-
-        if (fileResult.result.indicators.length > 0) {
-          details += '**Indicators:**\n';
-          for (const indicator of fileResult.result.indicators) {
-            details += `- ${indicator}\n`;
-          }
-          details += '\n';
-        }
-        details += '---\n\n';
+  if (config.postComment) {
+    const issue = { owner: config.owner, repo: config.repo, issue_number: config.prNumber };
+    const botLogin = await fetchBotLogin(octokit);
+    if (outcome.violated) {
+      const posted = await upsertStickyComment(
+        octokit,
+        issue,
+        botLogin,
+        buildHumanDetectionComment(overallResult, fileResults, templates, policy),
+        pr.head.sha
+      );
+      console.log(`💬 ${posted === 'created' ? 'Posted' : 'Updated'} ${policy} comment`);
+    } else {
+      const resolved = await resolveStickyComment(
+        octokit,
+        issue,
+        botLogin,
+        resolvedComment,
+        pr.head.sha,
+        policy
+      );
+      if (resolved !== 'none') {
+        console.log(`💬 ${resolved === 'deleted' ? 'Deleted' : 'Resolved'} the earlier comment`);
       }
     }
-  } else {
-    details += '## All files appear to be AI-generated 🤖\n\n';
-    details +=
-      'The code in this PR shows consistent patterns typical of AI-assisted development. Great job maintaining the "only robots" policy!\n\n';
-
-    details += '### File Analysis Summary:\n';
-    for (const fileResult of fileResults) {
-      details += `- **${fileResult.filename}**: ${fileResult.result.confidence.toFixed(1)}% confidence AI-generated\n`;
-    }
   }
 
-  return details;
-}
-
-function isCodeFile(filename: string): boolean {
-  const codeExtensions = [
-    '.js',
-    '.jsx',
-    '.ts',
-    '.tsx',
-    '.py',
-    '.java',
-    '.cpp',
-    '.c',
-    '.h',
-    '.cs',
-    '.rb',
-    '.go',
-    '.rs',
-    '.swift',
-    '.kt',
-    '.scala',
-    '.php',
-    '.vue',
-    '.svelte',
-    '.astro',
-  ];
-
-  return codeExtensions.some((ext) => filename.endsWith(ext));
+  // Output results; require-attribution's verdict is about the PR, not its code
+  const message =
+    policy === 'require-attribution'
+      ? overallResult.reasoning
+      : `Code appears to be ${overallResult.isHumanLike ? 'human-written' : 'AI-generated'} (${overallResult.confidence.toFixed(1)}% confidence)`;
+  if (outcome.violated) {
+    console.log(`❌ FAILED: ${message}`);
+    console.log(`📊 Check run: ${checkRun.html_url}`);
+    process.exit(1);
+  } else {
+    console.log(`${outcome.result === 'reported' ? '📝 REPORTED' : '✅ PASSED'}: ${message}`);
+    console.log(`📊 Check run: ${checkRun.html_url}`);
+  }
 }
 
 if (require.main === module) {
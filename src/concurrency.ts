@@ -0,0 +1,61 @@
+/**
+ * Caps how many tasks run at once. One limiter can be shared by several callers
+ * (e.g. the eval runner and every evaluator it drives) so their combined load on
+ * the LLM provider stays bounded.
+ */
+export class ConcurrencyLimiter {
+  readonly concurrency: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+
+  constructor(concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer (got ${concurrency})`);
+    }
+    this.concurrency = concurrency;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.waitForPause();
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hold back tasks that have not started yet, e.g. after the provider answered
+   * with a rate limit, so queued work doesn't pile onto an exhausted quota.
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing task hands its slot over directly, so active stays unchanged
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async waitForPause(): Promise<void> {
+    const remaining = this.pausedUntil - Date.now();
+    if (remaining > 0) {
+      await new Promise((resolve) => setTimeout(resolve, remaining));
+    }
+  }
+}
@@ -0,0 +1,169 @@
+export type DiffLineType = 'added' | 'removed' | 'context';
+
+export interface DiffLine {
+  type: DiffLineType;
+  /** Line text without the leading `+`, `-` or space. */
+  content: string;
+  /** Line number in the old file; absent for added lines. */
+  oldLine?: number;
+  /** Line number in the new file; absent for removed lines. */
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@` line, or '' for a patch without hunk headers. */
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the closing `@@`, usually the enclosing function. */
+  section: string;
+  lines: DiffLine[];
+}
+
+const PREFIXES: Record<DiffLineType, string> = { added: '+', removed: '-', context: ' ' };
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Parse a GitHub file patch (the `patch` field of pulls.listFiles) into hunks with
+ * old/new line numbers. File headers (`diff --git`, `---`, `+++`) and
+ * "\ No newline at end of file" markers are skipped. Text without any `@@` header
+ * is read as a single hunk starting at line 1, so bare `+`/`-` snippets still parse.
+ */
+export function parsePatch(patch: string): DiffHunk[] {
+  // A trailing newline is not an empty context line
+  const lines = patch.replace(/\n$/, '').split('\n');
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const hasHeaders = lines.some((line) => HUNK_HEADER.test(line));
+  if (!hasHeaders && patch.trim() !== '') {
+    current = {
+      header: '',
+      oldStart: 1,
+      oldLines: 0,
+      newStart: 1,
+      newLines: 0,
+      section: '',
+      lines: [],
+    };
+    hunks.push(current);
+    oldLine = 1;
+    newLine = 1;
+  }
+
+  for (const line of lines) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      current = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        section: header[5] ?? '',
+        lines: [],
+      };
+      hunks.push(current);
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      continue;
+    }
+
+    // Text before the first hunk (file headers) and "\ No newline" markers carry no code
+    if (!current || line.startsWith('\\')) {
+      continue;
+    }
+    if (!hasHeaders && (line.startsWith('+++ ') || line.startsWith('--- '))) {
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      current.lines.push({ type: 'added', content: line.slice(1), newLine: newLine++ });
+    } else if (line.startsWith('-')) {
+      current.lines.push({ type: 'removed', content: line.slice(1), oldLine: oldLine++ });
+    } else {
+      // Context lines start with a space; some tools strip it from blank lines
+      const content = line.startsWith(' ') ? line.slice(1) : line;
+      current.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  if (!hasHeaders && current) {
+    current.oldLines = oldLine - 1;
+    current.newLines = newLine - 1;
+  }
+
+  return hunks;
+}
+
+export function getAddedLines(hunks: DiffHunk[]): DiffLine[] {
+  return hunks.flatMap((hunk) => hunk.lines.filter((line) => line.type === 'added'));
+}
+
+export function countLines(hunks: DiffHunk[]): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of hunks.flatMap((hunk) => hunk.lines)) {
+    if (line.type === 'added') additions++;
+    else if (line.type === 'removed') deletions++;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * The code a patch adds, without diff markers. Text that contains no added or
+ * removed lines is not a diff at all and is returned unchanged.
+ */
+export function getAddedCode(patch: string): string {
+  const hunks = parsePatch(patch);
+  const { additions, deletions } = countLines(hunks);
+  if (additions === 0 && deletions === 0) {
+    return patch;
+  }
+  return getAddedLines(hunks)
+    .map((line) => line.content)
+    .join('\n');
+}
+
+/** Render a hunk back into patch text. */
+export function formatHunk(hunk: DiffHunk): string {
+  const body = hunk.lines.map((line) => `${PREFIXES[line.type]}${line.content}`);
+  return (hunk.header ? [hunk.header, ...body] : body).join('\n');
+}
+
+/**
+ * Render a patch with new-file line numbers in a left column, so a model can cite
+ * the lines it bases a verdict on. Removed lines get a blank number.
+ */
+export function formatNumberedPatch(patch: string): string {
+  const hunks = parsePatch(patch);
+  const width = String(
+    Math.max(1, ...hunks.map((hunk) => hunk.newStart + hunk.lines.length))
+  ).length;
+
+  return hunks
+    .map((hunk) => {
+      const body = hunk.lines.map((line) => {
+        const number = line.newLine === undefined ? '' : String(line.newLine);
+        return `${number.padStart(width)} ${PREFIXES[line.type]}${line.content}`;
+      });
+      return (hunk.header ? [hunk.header, ...body] : body).join('\n');
+    })
+    .join('\n');
+}
+
+/** Content of every line present in the new file (added or context), by line number. */
+export function getNewFileLines(hunks: DiffHunk[]): Map<number, string> {
+  const lines = new Map<number, string>();
+  for (const line of hunks.flatMap((hunk) => hunk.lines)) {
+    if (line.newLine !== undefined) {
+      lines.set(line.newLine, line.content);
+    }
+  }
+  return lines;
+}
@@ -1,7 +1,15 @@
 #!/usr/bin/env node
 import { config } from 'dotenv';
 import { Command } from 'commander';
-import { EvalRunner } from './runner';
+import {
+  combineVariants,
+  ENGINE_VARIANTS,
+  EVALUATION_MODE_VARIANTS,
+  EvalRunner,
+  type EvalVariant,
+  PROMPT_CONTEXT_VARIANTS,
+} from './runner';
+import { DEFAULT_CACHE_DIR } from '../judgment-cache';
 import { PRFetcher } from '../test/utils/pr-fetcher';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
@@ -18,12 +26,102 @@ program
   .description('Run evaluation on all PRs in the dataset')
   .option('--limit <number>', 'Limit number of PRs to evaluate', parseInt)
   .option('--concurrency <number>', 'Number of PRs to evaluate in parallel (default: 4)', parseInt)
+  .option('--llm-provider <provider>', 'LLM provider (openai, anthropic, azure, openai-compatible)')
+  .option('--llm-model <model>', 'Model to use (Azure: deployment name)')
+  .option('--llm-base-url <url>', 'Base URL for Azure or OpenAI-compatible providers')
+  .option(
+    '--prompt-context <mode>',
+    'Pass PR title/description/commits into prompts: on, off, or compare (default: on)',
+    'on'
+  )
+  .option(
+    '--mode <mode>',
+    'Judge each file separately (file), the whole PR in one call (pr), or compare both (default: file)',
+    'file'
+  )
+  .option('--token-budget <tokens>', 'Approximate prompt token budget in pr mode', parseInt)
+  .option(
+    '--engine <engine>',
+    'Evaluation engine: llm, heuristic, ensemble, or compare to run all three (default: llm)',
+    'llm'
+  )
+  .option(
+    '--heuristic-weight <weight>',
+    'Weight of the heuristic in the ensemble engine (0-1)',
+    parseFloat
+  )
+  .option(
+    '--cache [dir]',
+    `Reuse cached judgments of unchanged patches (default dir: ${DEFAULT_CACHE_DIR})`
+  )
   .action(async (options) => {
+    let contextVariants: EvalVariant[];
+    switch (options.promptContext) {
+      case 'on':
+        contextVariants = [PROMPT_CONTEXT_VARIANTS.on];
+        break;
+      case 'off':
+        contextVariants = [PROMPT_CONTEXT_VARIANTS.off];
+        break;
+      case 'compare':
+        contextVariants = [PROMPT_CONTEXT_VARIANTS.on, PROMPT_CONTEXT_VARIANTS.off];
+        break;
+      default:
+        console.error('Error: --prompt-context must be one of: on, off, compare');
+        process.exit(1);
+    }
+
+    let modeVariants: EvalVariant[];
+    switch (options.mode) {
+      case 'file':
+        modeVariants = [EVALUATION_MODE_VARIANTS.file];
+        break;
+      case 'pr':
+        modeVariants = [EVALUATION_MODE_VARIANTS.pr];
+        break;
+      case 'compare':
+        modeVariants = [EVALUATION_MODE_VARIANTS.file, EVALUATION_MODE_VARIANTS.pr];
+        break;
+      default:
+        console.error('Error: --mode must be one of: file, pr, compare');
+        process.exit(1);
+    }
+
+    let engineVariants: EvalVariant[];
+    switch (options.engine) {
+      case 'llm':
+        engineVariants = [ENGINE_VARIANTS.llm];
+        break;
+      case 'heuristic':
+        engineVariants = [ENGINE_VARIANTS.heuristic];
+        break;
+      case 'ensemble':
+        engineVariants = [ENGINE_VARIANTS.ensemble];
+        break;
+      case 'compare':
+        engineVariants = [ENGINE_VARIANTS.heuristic, ENGINE_VARIANTS.llm, ENGINE_VARIANTS.ensemble];
+        break;
+      default:
+        console.error('Error: --engine must be one of: llm, heuristic, ensemble, compare');
+        process.exit(1);
+    }
+
+    const variants = combineVariants(engineVariants, contextVariants, modeVariants, [
+      { name: '', options: { tokenBudget: options.tokenBudget } },
+    ]);
+
     try {
-      const runner = new EvalRunner();
+      const runner = new EvalRunner({
+        provider: options.llmProvider,
+        model: options.llmModel,
+        baseUrl: options.llmBaseUrl,
+      });
       await runner.runEvaluation({
         limit: options.limit,
         concurrency: options.concurrency || 4,
+        variants,
+        cacheDir: options.cache === true ? DEFAULT_CACHE_DIR : options.cache,
+        heuristicWeight: options.heuristicWeight,
       });
     } catch (error) {
       console.error('Error:', error);
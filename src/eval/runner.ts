@@ -1,4 +1,13 @@
-import { LLMEvaluator } from '../llm-evaluator';
+import { ConcurrencyLimiter } from '../concurrency';
+import {
+  createPullRequestEvaluator,
+  type EvaluationEngine,
+  type PullRequestEvaluator,
+} from '../evaluation-engine';
+import { FileSystemJudgmentCache } from '../judgment-cache';
+import { type EvaluationOptions, LLMEvaluator } from '../llm-evaluator';
+import { createLLMProvider, type LLMProvider, type LLMProviderConfig } from '../llm-provider';
+import type { PRExample } from '../test/utils/pr-fetcher';
 import { RealPRLoader } from '../test/utils/real-pr-loader';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
@@ -23,9 +32,12 @@ export interface EvalResult {
   correct: boolean;
   toolCorrect?: boolean;
   duration: number;
+  /** Files whose judgment came from the cache. */
+  cachedFiles?: number;
 }
 
 export interface EvalSummary {
+  variant?: string;
   totalPRs: number;
   correct: number;
   incorrect: number;
@@ -39,23 +51,90 @@ export interface EvalSummary {
     incorrect: number;
   };
   results: EvalResult[];
+  /** Every variant's summary when more than one was compared. */
+  variants?: EvalSummary[];
+}
+
+/**
+ * A named evaluator configuration. Running several variants over the same dataset
+ * lets us compare their accuracy side by side.
+ */
+export interface EvalVariant {
+  name: string;
+  options: EvaluationOptions;
+  /** Defaults to `llm`. */
+  engine?: EvaluationEngine;
+}
+
+export const PROMPT_CONTEXT_VARIANTS = {
+  on: { name: 'with-context', options: { promptContext: true } },
+  off: { name: 'without-context', options: { promptContext: false } },
+} satisfies Record<string, EvalVariant>;
+
+export const EVALUATION_MODE_VARIANTS = {
+  file: { name: 'file-mode', options: { mode: 'file' } },
+  pr: { name: 'pr-mode', options: { mode: 'pr' } },
+} satisfies Record<string, EvalVariant>;
+
+export const ENGINE_VARIANTS = {
+  llm: { name: 'llm', options: {}, engine: 'llm' },
+  heuristic: { name: 'heuristic', options: {}, engine: 'heuristic' },
+  ensemble: { name: 'ensemble', options: {}, engine: 'ensemble' },
+} satisfies Record<string, EvalVariant>;
+
+/**
+ * Cross several dimensions of variants, e.g. prompt context on/off with file/pr
+ * mode. Only dimensions with more than one choice show up in the combined names.
+ */
+export function combineVariants(...dimensions: EvalVariant[][]): EvalVariant[] {
+  const named = dimensions.filter((dimension) => dimension.length > 1);
+  return dimensions.reduce<EvalVariant[]>(
+    (combined, dimension) =>
+      combined.flatMap((base) =>
+        dimension.map((variant) => ({
+          name:
+            named.includes(dimension) || named.length === 0
+              ? [base.name, variant.name].filter(Boolean).join('+')
+              : base.name,
+          options: { ...base.options, ...variant.options },
+          engine: variant.engine ?? base.engine,
+        }))
+      ),
+    [{ name: '', options: {} }]
+  );
 }
 
 export class EvalRunner {
-  private evaluator: LLMEvaluator;
+  private providerConfig: LLMProviderConfig;
   private loader: RealPRLoader;
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is required');
-    }
-
-    this.evaluator = new LLMEvaluator({ OPENAI_API_KEY: apiKey });
+  constructor(providerConfig: LLMProviderConfig = {}) {
+    this.providerConfig = providerConfig;
     this.loader = new RealPRLoader();
   }
 
-  async runEvaluation(filter?: { limit?: number; concurrency?: number }): Promise<EvalSummary> {
+  // Created on demand so heuristic-only runs work without an API key
+  private createProvider(): LLMProvider {
+    const provider = createLLMProvider({
+      provider: this.providerConfig.provider || process.env.LLM_PROVIDER,
+      apiKey: this.providerConfig.apiKey,
+      model: this.providerConfig.model || process.env.LLM_MODEL,
+      baseUrl: this.providerConfig.baseUrl || process.env.LLM_BASE_URL,
+    });
+
+    console.log(`🧠 Judge: ${provider.name} (${provider.model})`);
+    return provider;
+  }
+
+  async runEvaluation(filter?: {
+    limit?: number;
+    concurrency?: number;
+    variants?: EvalVariant[];
+    /** Reuse judgments cached in this directory. Off by default so prompt changes are always measured. */
+    cacheDir?: string;
+    /** Weight of the heuristic in ensemble variants. */
+    heuristicWeight?: number;
+  }): Promise<EvalSummary> {
     console.log('🚀 Starting PR evaluation...\n');
 
     // Load all PRs
@@ -72,10 +151,62 @@ export class EvalRunner {
       prs = prs.slice(0, filter.limit);
     }
 
-    // Run evaluations with configurable concurrency
+    // Run evaluations with configurable concurrency. PRs are processed in batches of
+    // this size, and every LLM request from every PR shares one limiter of the same
+    // size, so the two levels of parallelism never multiply.
     const concurrency = filter?.concurrency || 4;
     console.log(`\n🔄 Running with concurrency: ${concurrency}`);
 
+    const variants: EvalVariant[] = filter?.variants?.length
+      ? filter.variants
+      : [PROMPT_CONTEXT_VARIANTS.on];
+    const llmEvaluator = variants.some((variant) => variant.engine !== 'heuristic')
+      ? new LLMEvaluator({
+          provider: this.createProvider(),
+          limiter: new ConcurrencyLimiter(concurrency),
+          // Per-file progress from parallel PRs would interleave with the per-PR report
+          logger: () => {},
+          warn: console.warn,
+          cache: filter?.cacheDir ? new FileSystemJudgmentCache(filter.cacheDir) : undefined,
+        })
+      : undefined;
+    const summaries: EvalSummary[] = [];
+
+    for (const variant of variants) {
+      if (variants.length > 1) {
+        console.log(`\n🧪 Variant: ${variant.name}`);
+      }
+
+      const evaluator = createPullRequestEvaluator({
+        engine: variant.engine ?? 'llm',
+        llmEvaluator,
+        heuristicWeight: filter?.heuristicWeight,
+      });
+      const results = await this.evaluateDataset(prs, evaluator, variant, concurrency);
+      const summary = { variant: variant.name, ...this.calculateSummary(results) };
+      this.printSummary(summary);
+      summaries.push(summary);
+    }
+
+    if (summaries.length > 1) {
+      this.printComparison(summaries);
+    }
+
+    // The first variant is the baseline; the others ride along for comparison
+    const summary = summaries.length > 1 ? { ...summaries[0], variants: summaries } : summaries[0];
+
+    // Save results
+    await this.saveResults(summary);
+
+    return summary;
+  }
+
+  private async evaluateDataset(
+    prs: PRExample[],
+    evaluator: PullRequestEvaluator,
+    variant: EvalVariant,
+    concurrency: number
+  ): Promise<EvalResult[]> {
     const results: EvalResult[] = [];
     const errors: Array<{ pr: any; error: any }> = [];
 
@@ -94,7 +225,7 @@ export class EvalRunner {
         const startTime = Date.now();
 
         try {
-          const result = await this.evaluator.evaluatePullRequest(pr.files, pr.context);
+          const result = await evaluator.evaluatePullRequest(pr.files, pr.context, variant.options);
           const duration = Date.now() - startTime;
 
           const isAI = !result.overallResult.isHumanLike;
@@ -125,6 +256,7 @@ export class EvalRunner {
                   .includes(pr.metadata.tool.toLowerCase())
               : undefined,
             duration,
+            cachedFiles: result.fileResults.filter((f) => f.result.cached).length,
           };
         } catch (error) {
           errors.push({ pr, error });
@@ -157,28 +289,16 @@ export class EvalRunner {
           );
           console.log(`   Result: ${result.correct ? '✅ Correct' : '❌ Incorrect'}`);
           console.log(`   Duration: ${(result.duration / 1000).toFixed(1)}s`);
+          if (result.cachedFiles) {
+            console.log(`   Cached: ${result.cachedFiles} file judgment(s)`);
+          }
 
           results.push(result);
         }
       }
-
-      // Rate limiting between batches (only if not the last batch)
-      if (i + concurrency < prs.length) {
-        console.log('\n⏱️  Rate limiting pause...');
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
     }
 
-    // Calculate summary
-    const summary = this.calculateSummary(results);
-
-    // Print summary
-    this.printSummary(summary);
-
-    // Save results
-    await this.saveResults(summary);
-
-    return summary;
+    return results;
   }
 
   private calculateSummary(results: EvalResult[]): EvalSummary {
@@ -238,9 +358,25 @@ export class EvalRunner {
     return Math.round(nums.reduce((a, b) => a + b, 0) / nums.length);
   }
 
+  private printComparison(summaries: EvalSummary[]): void {
+    console.log(`\n${'='.repeat(60)}`);
+    console.log('⚖️  VARIANT COMPARISON');
+    console.log('='.repeat(60));
+
+    for (const summary of summaries) {
+      console.log(
+        `   ${(summary.variant ?? 'default').padEnd(32)} ${(summary.accuracy * 100).toFixed(1)}% (${summary.correct}/${summary.totalPRs})  FP: ${summary.falsePositives}  FN: ${summary.falseNegatives}`
+      );
+    }
+
+    console.log(`\n${'='.repeat(60)}`);
+  }
+
   private printSummary(summary: EvalSummary): void {
     console.log(`\n${'='.repeat(60)}`);
-    console.log('📊 EVALUATION SUMMARY');
+    console.log(
+      summary.variant ? `📊 EVALUATION SUMMARY (${summary.variant})` : '📊 EVALUATION SUMMARY'
+    );
     console.log('='.repeat(60));
 
     console.log(
@@ -0,0 +1,120 @@
+import { HeuristicEvaluator, humanScoreOf } from './heuristic-evaluator';
+import {
+  type EvaluationOptions,
+  type FileAnalysis,
+  type FileToEvaluate,
+  isValidJudgment,
+  type LLMEvaluationResult,
+  type LLMEvaluator,
+  type PRContext,
+} from './llm-evaluator';
+
+/**
+ * `llm` trusts the LLM judge alone, `heuristic` runs the offline pattern scorer, and
+ * `ensemble` blends the two with a configurable weight on the heuristic.
+ */
+export const EVALUATION_ENGINES = ['llm', 'heuristic', 'ensemble'] as const;
+export type EvaluationEngine = (typeof EVALUATION_ENGINES)[number];
+
+export const DEFAULT_HEURISTIC_WEIGHT = 0.25;
+
+export interface PullRequestEvaluation {
+  overallResult: LLMEvaluationResult;
+  fileResults: FileAnalysis[];
+}
+
+export interface PullRequestEvaluator {
+  evaluatePullRequest(
+    files: FileToEvaluate[],
+    prContext?: PRContext,
+    options?: EvaluationOptions
+  ): Promise<PullRequestEvaluation>;
+}
+
+export function isEvaluationEngine(value: string): value is EvaluationEngine {
+  return (EVALUATION_ENGINES as readonly string[]).includes(value);
+}
+
+export function createPullRequestEvaluator(config: {
+  engine: EvaluationEngine;
+  llmEvaluator?: LLMEvaluator;
+  heuristicWeight?: number;
+}): PullRequestEvaluator {
+  if (config.engine === 'heuristic') {
+    return new HeuristicEvaluator();
+  }
+
+  if (!config.llmEvaluator) {
+    throw new Error(`The ${config.engine} engine requires an LLM provider`);
+  }
+
+  if (config.engine === 'ensemble') {
+    return new EnsembleEvaluator(
+      config.llmEvaluator,
+      config.heuristicWeight ?? DEFAULT_HEURISTIC_WEIGHT
+    );
+  }
+
+  return config.llmEvaluator;
+}
+
+/**
+ * Runs the LLM judge and the heuristic scorer side by side and blends their verdicts,
+ * per file and for the PR. The heuristic's matched patterns are kept as separate
+ * `heuristic:` indicators so reports can tell the two sources apart.
+ */
+export class EnsembleEvaluator implements PullRequestEvaluator {
+  private heuristic = new HeuristicEvaluator();
+
+  constructor(
+    private llm: LLMEvaluator,
+    private heuristicWeight: number
+  ) {
+    if (!(heuristicWeight >= 0 && heuristicWeight <= 1)) {
+      throw new Error(`Heuristic weight must be between 0 and 1 (got ${heuristicWeight})`);
+    }
+  }
+
+  async evaluatePullRequest(
+    files: FileToEvaluate[],
+    prContext?: PRContext,
+    options?: EvaluationOptions
+  ): Promise<PullRequestEvaluation> {
+    const [llmEvaluation, heuristicEvaluation] = await Promise.all([
+      this.llm.evaluatePullRequest(files, prContext, options),
+      this.heuristic.evaluatePullRequest(files),
+    ]);
+
+    const heuristicByFile = new Map(
+      heuristicEvaluation.fileResults.map((file) => [file.filename, file.result])
+    );
+
+    return {
+      overallResult: this.blend(llmEvaluation.overallResult, heuristicEvaluation.overallResult),
+      fileResults: llmEvaluation.fileResults.map((file) => {
+        const heuristic = heuristicByFile.get(file.filename);
+        return heuristic ? { ...file, result: this.blend(file.result, heuristic) } : file;
+      }),
+    };
+  }
+
+  private blend(llm: LLMEvaluationResult, heuristic: LLMEvaluationResult): LLMEvaluationResult {
+    // A missing LLM verdict stays missing; the heuristic alone doesn't get to decide
+    if (!isValidJudgment(llm)) {
+      return { ...llm, indicators: [...llm.indicators, ...heuristic.indicators] };
+    }
+
+    const humanScore =
+      (1 - this.heuristicWeight) * humanScoreOf(llm) +
+      this.heuristicWeight * humanScoreOf(heuristic);
+    const isHumanLike = humanScore > 50;
+
+    return {
+      ...llm,
+      isHumanLike,
+      confidence: isHumanLike ? humanScore : 100 - humanScore,
+      reasoning: `${llm.reasoning}\n\nHeuristic analysis (${Math.round(this.heuristicWeight * 100)}% weight): ${heuristic.reasoning}`,
+      indicators: [...llm.indicators, ...heuristic.indicators],
+    };
+  }
+}
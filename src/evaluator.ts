@@ -1,3 +1,5 @@
+import { getAddedCode } from './diff';
+
 interface CodePattern {
   pattern: RegExp;
   humanScore: number;
@@ -97,7 +99,13 @@ const AI_CODE_PATTERNS: CodePattern[] = [
   },
 ];
 
-export function evaluateCode(code: string, _filename: string): EvaluationResult {
+/**
+ * Score a patch with the patterns above. Only the lines it adds are analyzed; removed
+ * lines, context and diff markers are not the author's new code. Plain source text
+ * (not a diff) is analyzed as is.
+ */
+export function evaluateCode(patch: string, _filename: string): EvaluationResult {
+  const code = getAddedCode(patch);
   let totalScore = 0;
   const matchedPatterns: string[] = [];
   const reasons: string[] = [];
@@ -0,0 +1,72 @@
+import { getNewFileLines, parsePatch } from './diff';
+import type { FileToEvaluate, IndicatorEvidence } from './llm-evaluator';
+
+// Longer citations are not pointing at anything in particular
+const MAX_EVIDENCE_LINES = 30;
+
+/**
+ * Keep only the evidence that quotes lines actually present in the patch. A snippet
+ * found elsewhere in its file is moved there (models miscount line numbers); one
+ * found nowhere is a hallucination and is dropped. With a single file, evidence is
+ * attributed to it whatever filename the model wrote.
+ */
+export function groundEvidence(
+  evidence: IndicatorEvidence[],
+  files: FileToEvaluate[]
+): { kept: IndicatorEvidence[]; dropped: number } {
+  const linesByFile = new Map(
+    files.map((file) => [file.filename, getNewFileLines(parsePatch(file.patch))])
+  );
+  const kept: IndicatorEvidence[] = [];
+
+  for (const item of evidence) {
+    const filename = files.length === 1 ? files[0].filename : item.filename;
+    const lines = linesByFile.get(filename);
+    const span = item.endLine - item.startLine + 1;
+    const snippet = normalize(item.snippet);
+    if (!lines || snippet === '' || span > MAX_EVIDENCE_LINES) {
+      continue;
+    }
+
+    const startLine = quotes(lines, item.startLine, span, snippet)
+      ? item.startLine
+      : [...lines.keys()].find((line) => quotes(lines, line, span, snippet));
+    if (startLine === undefined) {
+      continue;
+    }
+
+    kept.push({
+      indicator: item.indicator,
+      filename,
+      startLine,
+      endLine: startLine + span - 1,
+      snippet: item.snippet,
+      direction: item.direction,
+    });
+  }
+
+  return { kept, dropped: evidence.length - kept.length };
+}
+
+export function formatEvidenceLocation(evidence: IndicatorEvidence): string {
+  return evidence.startLine === evidence.endLine
+    ? `${evidence.filename}:${evidence.startLine}`
+    : `${evidence.filename}:${evidence.startLine}-${evidence.endLine}`;
+}
+
+function quotes(lines: Map<number, string>, start: number, span: number, snippet: string) {
+  const text: string[] = [];
+  for (let line = start; line < start + span; line++) {
+    const content = lines.get(line);
+    if (content === undefined) {
+      return false;
+    }
+    text.push(content);
+  }
+  return normalize(text.join('\n')).includes(snippet);
+}
+
+// Whitespace differs too often between the patch and a model's quote to compare it
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,235 @@
+import { matchesAnyGlob, matchesGlob } from './glob';
+import type { FileToEvaluate } from './llm-evaluator';
+import type { PullRequestFile } from './pull-request-changes';
+
+/**
+ * File types that can be selected for evaluation. Everything but `config` is
+ * selected by default; `workflows` is the YAML under `.github/workflows`.
+ */
+export const LANGUAGES = [
+  'javascript',
+  'typescript',
+  'python',
+  'java',
+  'c',
+  'csharp',
+  'ruby',
+  'go',
+  'rust',
+  'swift',
+  'kotlin',
+  'scala',
+  'php',
+  'web',
+  'workflows',
+  'config',
+] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGES: readonly Language[] = LANGUAGES.filter(
+  (language) => language !== 'config'
+);
+
+const LANGUAGE_GLOBS: Record<Language, string[]> = {
+  javascript: ['*.{js,jsx,mjs,cjs}'],
+  typescript: ['*.{ts,tsx,mts,cts}'],
+  python: ['*.py'],
+  java: ['*.java'],
+  c: ['*.{c,h,cc,cpp,hpp}'],
+  csharp: ['*.cs'],
+  ruby: ['*.rb'],
+  go: ['*.go'],
+  rust: ['*.rs'],
+  swift: ['*.swift'],
+  kotlin: ['*.{kt,kts}'],
+  scala: ['*.scala'],
+  php: ['*.php'],
+  web: ['*.{vue,svelte,astro}'],
+  workflows: ['.github/workflows/*.{yml,yaml}'],
+  config: ['*.{json,yml,yaml,toml}'],
+};
+
+// Never written by hand, whatever the author used: skipped before any other rule
+const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'uv.lock',
+  'go.sum',
+  'Package.resolved',
+];
+const MINIFIED = ['*.min.{js,mjs,cjs,css}', '*.bundle.js'];
+const BUILD_OUTPUT = ['**/dist/**'];
+
+/** Globs and languages narrowing which changed files are evaluated. */
+export interface PathFilters {
+  /** Only files matching one of these are evaluated; all files when unset. */
+  include?: string[];
+  /** Files matching one of these are never evaluated. */
+  exclude?: string[];
+  /** File types evaluated. Defaults to DEFAULT_LANGUAGES. */
+  languages?: Language[];
+}
+
+export type SkipReason =
+  | 'removed'
+  | 'no-patch'
+  | 'lockfile'
+  | 'minified'
+  | 'build-output'
+  | 'generated'
+  | 'vendored'
+  | 'excluded'
+  | 'not-included'
+  | 'unselected-language';
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  removed: 'deleted',
+  'no-patch': 'no text diff (binary or too large)',
+  lockfile: 'lockfile',
+  minified: 'minified bundle',
+  'build-output': 'build output',
+  generated: 'marked linguist-generated in .gitattributes',
+  vendored: 'marked linguist-vendored in .gitattributes',
+  excluded: 'matches paths.exclude',
+  'not-included': 'outside paths.include',
+  'unselected-language': 'not a selected language',
+};
+
+export interface SkippedFile {
+  filename: string;
+  reason: SkipReason;
+}
+
+export interface FileSelection {
+  files: FileToEvaluate[];
+  skipped: SkippedFile[];
+}
+
+/** A `.gitattributes` line setting or unsetting the linguist attributes. */
+export interface GitAttributeRule {
+  pattern: string;
+  generated?: boolean;
+  vendored?: boolean;
+}
+
+export interface FileSelectionOptions {
+  paths?: PathFilters;
+  /** Rules from the repository's `.gitattributes`; see parseGitAttributes. */
+  gitAttributes?: GitAttributeRule[];
+}
+
+export function isLanguage(value: string): value is Language {
+  return (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * The changed files worth judging, and every other file with the reason it was left
+ * out. The action, the CLI and `test-pr` all select files here so they agree.
+ */
+export function selectFiles(
+  files: PullRequestFile[],
+  options: FileSelectionOptions = {}
+): FileSelection {
+  const selection: FileSelection = { files: [], skipped: [] };
+  for (const file of files) {
+    const reason = skipReasonOf(file, options);
+    if (reason) {
+      selection.skipped.push({ filename: file.filename, reason });
+    } else {
+      selection.files.push({ filename: file.filename, patch: file.patch ?? '' });
+    }
+  }
+  return selection;
+}
+
+function skipReasonOf(file: PullRequestFile, options: FileSelectionOptions): SkipReason | null {
+  const { filename } = file;
+  const paths = options.paths ?? {};
+  const attributes = linguistAttributesOf(filename, options.gitAttributes ?? []);
+
+  if (file.status === 'removed') {
+    return 'removed';
+  }
+  if (!file.patch) {
+    return 'no-patch';
+  }
+  if (attributes.generated) {
+    return 'generated';
+  }
+  if (attributes.vendored) {
+    return 'vendored';
+  }
+  if (matchesAnyGlob(filename, LOCKFILES)) {
+    return 'lockfile';
+  }
+  if (matchesAnyGlob(filename, MINIFIED)) {
+    return 'minified';
+  }
+  if (matchesAnyGlob(filename, BUILD_OUTPUT)) {
+    return 'build-output';
+  }
+  if (matchesAnyGlob(filename, paths.exclude ?? [])) {
+    return 'excluded';
+  }
+  if (paths.include && paths.include.length > 0 && !matchesAnyGlob(filename, paths.include)) {
+    return 'not-included';
+  }
+  const languages = paths.languages ?? DEFAULT_LANGUAGES;
+  if (!languages.some((language) => matchesAnyGlob(filename, LANGUAGE_GLOBS[language]))) {
+    return 'unselected-language';
+  }
+  return null;
+}
+
+/**
+ * The `linguist-generated` and `linguist-vendored` rules of a `.gitattributes` file.
+ * As in git, later lines win; `-attr` and `attr=false` unset an attribute.
+ */
+export function parseGitAttributes(text: string): GitAttributeRule[] {
+  const rules: GitAttributeRule[] = [];
+  for (const line of text.split('\n')) {
+    const [pattern, ...attributes] = line.trim().split(/\s+/);
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    const rule: GitAttributeRule = { pattern };
+    for (const attribute of attributes) {
+      const unset = attribute.startsWith('-') || attribute.startsWith('!');
+      const [name, value] = attribute.replace(/^[-!]/, '').split('=');
+      const isSet = !unset && value !== 'false';
+      if (name === 'linguist-generated') {
+        rule.generated = isSet;
+      } else if (name === 'linguist-vendored') {
+        rule.vendored = isSet;
+      }
+    }
+    if (rule.generated !== undefined || rule.vendored !== undefined) {
+      rules.push(rule);
+    }
+  }
+  return rules;
+}
+
+function linguistAttributesOf(
+  filename: string,
+  rules: GitAttributeRule[]
+): { generated: boolean; vendored: boolean } {
+  const attributes = { generated: false, vendored: false };
+  for (const rule of rules) {
+    if (matchesGlob(filename, rule.pattern)) {
+      attributes.generated = rule.generated ?? attributes.generated;
+      attributes.vendored = rule.vendored ?? attributes.vendored;
+    }
+  }
+  return attributes;
+}
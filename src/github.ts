@@ -1,3 +1,18 @@
+import {
+  fetchPullRequestFiles as fetchAllPullRequestFiles,
+  fetchPullRequestCommits,
+  type PullRequestCommit,
+  type PullsClient,
+} from './pull-request-changes';
+import {
+  type FileSelection,
+  parseGitAttributes,
+  type PathFilters,
+  selectFiles,
+} from './file-selection';
+import type { PullRequestAuthor } from './author-policy';
+import { type ContentsClient, fetchRepoFile } from './repo-config';
+
 export async function verifyWebhookSignature(
   body: string,
   signature: string | null,
@@ -30,6 +45,14 @@ function arrayBufferToHex(buffer: ArrayBuffer): string {
   return hexCodes.join('');
 }
 
+interface PullRequestDetails {
+  title: string;
+  body: string | null;
+  user: PullRequestAuthor;
+  base: { sha: string };
+  head: { sha: string };
+}
+
 export interface GitHubConfig {
   GITHUB_TOKEN?: string;
   GITHUB_WEBHOOK_SECRET: string;
@@ -57,64 +80,138 @@ export class GitHubClient {
     return headers;
   }
 
+  /** The PR's changed files, split into those to evaluate and those skipped. */
   async fetchPullRequestFiles(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    paths?: PathFilters
+  ): Promise<FileSelection> {
+    const pr = await this.fetchPullRequest(owner, repo, pullNumber);
+    const [files, gitAttributes] = await Promise.all([
+      fetchAllPullRequestFiles(
+        this.pullsClient(),
+        { owner, repo, pull_number: pullNumber },
+        console.warn
+      ),
+      fetchRepoFile(this.contentsClient(), {
+        owner,
+        repo,
+        path: '.gitattributes',
+        ref: pr.base.sha,
+      }),
+    ]);
+    return selectFiles(files, {
+      paths,
+      gitAttributes: gitAttributes ? parseGitAttributes(gitAttributes) : undefined,
+    });
+  }
+
+  async fetchPullRequestContext(
     owner: string,
     repo: string,
     pullNumber: number
-  ): Promise<Array<{ filename: string; patch: string }>> {
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/files`,
-      { headers: this.getHeaders() }
+  ): Promise<{
+    title: string;
+    description?: string;
+    commitMessages: string[];
+    commits: PullRequestCommit[];
+    author: PullRequestAuthor;
+  }> {
+    const pr = await this.fetchPullRequest(owner, repo, pullNumber);
+    const commits = await fetchPullRequestCommits(
+      this.pullsClient(),
+      { owner, repo, pull_number: pullNumber },
+      { base: pr.base.sha, head: pr.head.sha },
+      console.warn
     );
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch PR files: ${response.statusText}`);
-    }
+    return {
+      title: pr.title,
+      description: pr.body || undefined,
+      commitMessages: commits.map((c) => c.commit.message),
+      commits,
+      author: { login: pr.user.login, type: pr.user.type },
+    };
+  }
 
-    const files = (await response.json()) as Array<{
-      filename: string;
-      status: string;
-      patch?: string;
-    }>;
-    return files
-      .filter((file) => file.status !== 'removed' && this.isCodeFile(file.filename))
-      .map((file) => ({
-        filename: file.filename,
-        patch: file.patch || '',
-      }))
-      .filter((file) => file.patch.length > 0);
+  private fetchPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullRequestDetails> {
+    return this.getJson(`/repos/${owner}/${repo}/pulls/${pullNumber}`, 'PR');
+  }
+
+  // The shared pagination logic talks to Octokit's shape, so give it that over fetch
+  private pullsClient(): PullsClient {
+    return {
+      rest: {
+        pulls: {
+          listFiles: async ({ owner, repo, pull_number, ...query }) => ({
+            data: await this.getJson(
+              `/repos/${owner}/${repo}/pulls/${pull_number}/files`,
+              'PR files',
+              query
+            ),
+          }),
+          listCommits: async ({ owner, repo, pull_number, ...query }) => ({
+            data: await this.getJson(
+              `/repos/${owner}/${repo}/pulls/${pull_number}/commits`,
+              'PR commits',
+              query
+            ),
+          }),
+        },
+        repos: {
+          compareCommitsWithBasehead: async ({ owner, repo, basehead, ...query }) => ({
+            data: await this.getJson(
+              `/repos/${owner}/${repo}/compare/${basehead}`,
+              'comparison',
+              query
+            ),
+          }),
+        },
+      },
+    };
+  }
+
+  private contentsClient(): ContentsClient {
+    return {
+      rest: {
+        repos: {
+          getContent: async ({ owner, repo, path, ref }) => ({
+            data: await this.getJson(
+              `/repos/${owner}/${repo}/contents/${path}`,
+              path,
+              ref ? { ref } : {}
+            ),
+          }),
+        },
+      },
+    };
   }
 
-  private isCodeFile(filename: string): boolean {
-    const codeExtensions = [
-      '.js',
-      '.jsx',
-      '.ts',
-      '.tsx',
-      '.py',
-      '.java',
-      '.cpp',
-      '.c',
-      '.h',
-      '.cs',
-      '.rb',
-      '.go',
-      '.rs',
-      '.swift',
-      '.kt',
-      '.scala',
-      '.php',
-      '.vue',
-      '.svelte',
-      '.astro',
-      '.mjs',
-      '.cjs',
-      '.json',
-      '.yaml',
-      '.yml',
-    ];
-
-    return codeExtensions.some((ext) => filename.endsWith(ext));
+  private async getJson<T>(
+    path: string,
+    description: string,
+    query: Record<string, number | string> = {}
+  ): Promise<T> {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      search.set(key, String(value));
+    }
+    const response = await fetch(`https://api.github.com${path}?${search}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      // Keep the status so callers can tell a missing file from a failed request
+      throw Object.assign(new Error(`Failed to fetch ${description}: ${response.statusText}`), {
+        status: response.status,
+      });
+    }
+    return (await response.json()) as T;
   }
 
   async verifyWebhookSignature(body: string, signature: string | null): Promise<boolean> {
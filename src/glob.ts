@@ -0,0 +1,49 @@
+/**
+ * Whether `filename` matches a gitignore-style glob: `*` and `?` stay within a path
+ * segment, `**` spans directories and `{a,b}` matches either alternative. Patterns
+ * without a slash match the file name in any directory, and a trailing slash matches
+ * everything below a directory.
+ */
+export function matchesGlob(filename: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filename);
+}
+
+export function matchesAnyGlob(filename: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(filename, pattern));
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const anchored = pattern.includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`;
+  let source = '';
+  let openBraces = 0;
+
+  for (let i = 0; i < anchored.length; i++) {
+    const char = anchored[i];
+    if (char === '*' && anchored[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (anchored[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      openBraces++;
+    } else if (char === '}' && openBraces > 0) {
+      source += ')';
+      openBraces--;
+    } else if (char === ',' && openBraces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}${anchored.endsWith('/') ? '.*' : ''}$`);
+}
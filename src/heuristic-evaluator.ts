@@ -0,0 +1,93 @@
+import { evaluateCode } from './evaluator';
+import type {
+  EvaluationOptions,
+  FileAnalysis,
+  FileToEvaluate,
+  LLMEvaluationResult,
+  PRContext,
+} from './llm-evaluator';
+
+export const HEURISTIC_INDICATOR_PREFIX = 'heuristic:';
+
+/**
+ * Judges files with the regex/heuristic scorer in evaluator.ts. Needs no API key, so
+ * it is the offline fallback (e.g. fork PRs without secrets) and the second opinion
+ * in the ensemble engine.
+ */
+export class HeuristicEvaluator {
+  evaluateFile(filename: string, patch: string): LLMEvaluationResult {
+    const evaluation = evaluateCode(patch, filename);
+
+    return {
+      isHumanLike: evaluation.isHumanLike,
+      confidence: evaluation.confidence,
+      reasoning: evaluation.reasons.join('. '),
+      indicators: evaluation.patterns.map(toHeuristicIndicator),
+    };
+  }
+
+  async evaluatePullRequest(
+    files: FileToEvaluate[],
+    _prContext?: PRContext,
+    _options?: EvaluationOptions
+  ): Promise<{
+    overallResult: LLMEvaluationResult;
+    fileResults: FileAnalysis[];
+  }> {
+    const fileResults = files.map((file) => ({
+      filename: file.filename,
+      patch: file.patch,
+      result: this.evaluateFile(file.filename, file.patch),
+    }));
+
+    if (fileResults.length === 0) {
+      return {
+        overallResult: {
+          isHumanLike: true,
+          confidence: 0,
+          reasoning: 'No files to analyze.',
+          indicators: [],
+        },
+        fileResults,
+      };
+    }
+
+    // Bigger patches give the patterns more to match, so they count for more
+    const weightOf = (file: FileAnalysis) => Math.max(file.patch.length, 1);
+    const totalWeight = fileResults.reduce((sum, file) => sum + weightOf(file), 0);
+    const humanScore =
+      fileResults.reduce((sum, file) => sum + humanScoreOf(file.result) * weightOf(file), 0) /
+      totalWeight;
+    const isHumanLike = humanScore > 50;
+    const humanFiles = fileResults.filter((file) => file.result.isHumanLike).length;
+
+    return {
+      overallResult: {
+        isHumanLike,
+        confidence: isHumanLike ? humanScore : 100 - humanScore,
+        reasoning: `Heuristic analysis: ${humanFiles} of ${fileResults.length} file(s) match human-written patterns (weighted by patch size).`,
+        indicators: [...new Set(fileResults.flatMap((file) => file.result.indicators))],
+      },
+      fileResults,
+    };
+  }
+}
+
+/** Likelihood of human authorship (0-100) implied by a verdict and its confidence. */
+export function humanScoreOf(result: LLMEvaluationResult): number {
+  return result.isHumanLike ? result.confidence : 100 - result.confidence;
+}
+
+export function isHeuristicIndicator(indicator: string): boolean {
+  return indicator.startsWith(HEURISTIC_INDICATOR_PREFIX);
+}
+
+function toHeuristicIndicator(pattern: string): string {
+  const aiPattern = pattern.startsWith('[AI] ');
+  const description = aiPattern ? pattern.slice('[AI] '.length) : pattern;
+  const slug = description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${HEURISTIC_INDICATOR_PREFIX}${aiPattern ? 'ai-' : 'human-'}${slug}`;
+}
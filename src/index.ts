@@ -1,28 +1,201 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { LLMEvaluator, type FileToEvaluate } from './llm-evaluator';
+import { EVALUATION_MODES, isEvaluationMode, isValidJudgment, LLMEvaluator } from './llm-evaluator';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  createPullRequestEvaluator,
+  EVALUATION_ENGINES,
+  type EvaluationEngine,
+  isEvaluationEngine,
+  type PullRequestEvaluation,
+} from './evaluation-engine';
+import { evaluateAttribution } from './attribution';
+import { applyAIAgentAuthor, findExemption, isAIAgent } from './author-policy';
+import {
+  type AnnotationLevel,
+  buildAnnotations,
+  CHECK_RUN_NAME,
+  createCheckRun,
+} from './check-run';
+import {
+  parseGitAttributes,
+  SKIP_REASON_LABELS,
+  type SkippedFile,
+  selectFiles,
+} from './file-selection';
+import { ActionsJudgmentCache } from './judgment-cache';
+import { createLLMProvider, MissingAPIKeyError } from './llm-provider';
+import {
+  buildHumanDetectionComment,
+  DEFAULT_BOT_LOGIN,
+  fetchBotLogin,
+  isResolvedCommentAction,
+  RESOLVED_COMMENT_ACTIONS,
+  resolveStickyComment,
+  upsertStickyComment,
+} from './pr-comment';
+import {
+  type Command,
+  COMMAND_PREFIX,
+  canOverride,
+  DEFAULT_OVERRIDE_LABEL,
+  findLabelOverride,
+  labelReason,
+  OVERRIDE_USAGE,
+  overrideCheckRun,
+  parseCommand,
+  withdrawFeedback,
+  withOverrideNote,
+} from './override';
+import { applyPolicy, DEFAULT_POLICY, isPolicy, POLICIES } from './policy';
+import { dismissReviews, FEEDBACK_MODES, isFeedbackMode, postReview } from './pr-review';
+import { fetchPullRequestCommits, fetchPullRequestFiles } from './pull-request-changes';
+import {
+  buildEvaluationReport,
+  type EvaluationReport,
+  renderCheckRunOutput,
+  type RunStats,
+  renderJobSummary,
+  renderNoFilesOutput,
+  renderSarif,
+} from './report';
+import {
+  fetchRepoConfig,
+  fetchRepoFile,
+  REPO_CONFIG_PATH,
+  type RepoConfig,
+  RepoConfigError,
+  renderConfigErrorOutput,
+} from './repo-config';
+import { isTone, loadTemplates, TONES } from './templates';
 
 async function run(): Promise<void> {
   try {
     // Get inputs
     const githubToken = core.getInput('github-token', { required: true });
-    const openaiApiKey = core.getInput('openai-api-key', { required: true });
+    const openaiApiKey = core.getInput('openai-api-key');
+    const llmProvider = core.getInput('llm-provider') || 'openai';
+    const llmModel = core.getInput('llm-model');
+    const llmBaseUrl = core.getInput('llm-base-url');
+    const llmApiKey = core.getInput('llm-api-key');
+    const maxRetries = parseInt(core.getInput('llm-max-retries') || '3');
+    const timeoutSeconds = parseInt(core.getInput('llm-timeout') || '60');
+    const concurrency = parseInt(core.getInput('concurrency') || '4');
+    const evaluationMode = core.getInput('evaluation-mode') || 'file';
+    const tokenBudget = parseInt(core.getInput('token-budget') || '50000');
+    const skipCache = core.getInput('skip-cache') === 'true';
+    const engineInput = core.getInput('engine') || 'llm';
+    const heuristicWeight = parseFloat(core.getInput('heuristic-weight') || '0.25');
     const prNumber = parseInt(core.getInput('pr-number') || '0');
     const postComment = core.getInput('post-comment') === 'true';
+    // post-comment predates feedback-mode and still turns feedback off when false
+    const feedbackMode = core.getInput('feedback-mode') || (postComment ? 'comment' : 'none');
+    const resolvedComment = core.getInput('resolved-comment') || 'update';
     const failOnHuman = core.getInput('fail-on-human') === 'true';
+    const reportPath = core.getInput('report-path');
+    const tone = core.getInput('tone') || 'playful';
+    const templatesPath = core.getInput('templates-path');
+    const configPath = core.getInput('config-path') || REPO_CONFIG_PATH;
+    const overrideLabel = core.getInput('override-label') || DEFAULT_OVERRIDE_LABEL;
+    const policyInput = core.getInput('policy') || DEFAULT_POLICY;
+
+    // Comments only matter as commands on a pull request, and labels as the override label
+    const { eventName, payload } = github.context;
+    let command: Command | undefined;
+    if (eventName === 'issue_comment') {
+      command = payload.issue?.pull_request
+        ? parseCommand(payload.comment?.body ?? '', core.info)
+        : undefined;
+      if (!command) {
+        core.info(`💤 Not a ${COMMAND_PREFIX} command on a pull request; nothing to do`);
+        return;
+      }
+    }
+    const labeled = eventName.startsWith('pull_request') && payload.action === 'labeled';
+    if (labeled && payload.label?.name !== overrideLabel) {
+      core.info(`💤 ${payload.label?.name} is not the override label; nothing to do`);
+      return;
+    }
 
     if (!prNumber) {
       core.setFailed('No pull request number provided');
       return;
     }
 
+    if (
+      Number.isNaN(maxRetries) ||
+      maxRetries < 0 ||
+      Number.isNaN(timeoutSeconds) ||
+      timeoutSeconds <= 0 ||
+      Number.isNaN(concurrency) ||
+      concurrency < 1
+    ) {
+      core.setFailed(
+        'llm-max-retries must be a non-negative integer, llm-timeout a positive number of seconds and concurrency a positive integer'
+      );
+      return;
+    }
+
+    if (!isEvaluationMode(evaluationMode)) {
+      core.setFailed(
+        `Unknown evaluation-mode "${evaluationMode}" (expected one of: ${EVALUATION_MODES.join(', ')})`
+      );
+      return;
+    }
+
+    if (Number.isNaN(tokenBudget) || tokenBudget < 1) {
+      core.setFailed('token-budget must be a positive integer');
+      return;
+    }
+
+    if (!isEvaluationEngine(engineInput)) {
+      core.setFailed(
+        `Unknown engine "${engineInput}" (expected one of: ${EVALUATION_ENGINES.join(', ')})`
+      );
+      return;
+    }
+
+    if (Number.isNaN(heuristicWeight) || heuristicWeight < 0 || heuristicWeight > 1) {
+      core.setFailed('heuristic-weight must be a number between 0 and 1');
+      return;
+    }
+
+    if (!isFeedbackMode(feedbackMode)) {
+      core.setFailed(
+        `Unknown feedback-mode "${feedbackMode}" (expected one of: ${FEEDBACK_MODES.join(', ')})`
+      );
+      return;
+    }
+
+    if (!isResolvedCommentAction(resolvedComment)) {
+      core.setFailed(
+        `Unknown resolved-comment "${resolvedComment}" (expected one of: ${RESOLVED_COMMENT_ACTIONS.join(', ')})`
+      );
+      return;
+    }
+
+    if (!isPolicy(policyInput)) {
+      core.setFailed(`Unknown policy "${policyInput}" (expected one of: ${POLICIES.join(', ')})`);
+      return;
+    }
+
+    if (!isTone(tone)) {
+      core.setFailed(`Unknown tone "${tone}" (expected one of: ${TONES.join(', ')})`);
+      return;
+    }
+
     const { owner, repo } = github.context.repo;
 
     core.info(`🤖 Evaluating PR #${prNumber} in ${owner}/${repo}`);
 
     // Initialize clients
     const octokit = github.getOctokit(githubToken);
-    const evaluator = new LLMEvaluator({ OPENAI_API_KEY: openaiApiKey });
+    const judgmentCache = new ActionsJudgmentCache(
+      path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'onlyrobots-judgments'),
+      `${github.context.runId}-${github.context.runAttempt}`
+    );
 
     // Get PR details
     const { data: pr } = await octokit.rest.pulls.get({
@@ -31,228 +204,427 @@ async function run(): Promise<void> {
       pull_number: prNumber,
     });
 
-    // Get changed files
-    const { data: files } = await octokit.rest.pulls.listFiles({
-      owner,
-      repo,
-      pull_number: prNumber,
-    });
-
-    // Filter and prepare files for evaluation
-    const filesToEvaluate: FileToEvaluate[] = files
-      .filter((file) => file.status !== 'removed' && isCodeFile(file.filename))
-      .map((file) => ({
-        filename: file.filename,
-        patch: file.patch || '',
-      }))
-      .filter((file) => file.patch.length > 0);
-
-    if (filesToEvaluate.length === 0) {
-      core.info('✅ No code files to evaluate');
-      core.setOutput('result', 'passed');
-      core.setOutput('confidence', '100');
-      core.setOutput('summary', 'No code files to evaluate');
+    // The base branch's config, so the PR under evaluation can't change its own rules
+    let repoConfig: RepoConfig | undefined;
+    try {
+      repoConfig = await fetchRepoConfig(octokit, { owner, repo, ref: pr.base.sha }, configPath);
+    } catch (error) {
+      if (!(error instanceof RepoConfigError)) {
+        throw error;
+      }
+      await createCheckRun(octokit, {
+        owner,
+        repo,
+        name: CHECK_RUN_NAME,
+        head_sha: pr.head.sha,
+        conclusion: 'failure',
+        output: renderConfigErrorOutput(error),
+      });
+      core.setFailed(error.message);
       return;
     }
+    if (repoConfig) {
+      core.info(`⚙️  Using ${configPath} from ${pr.base.ref}`);
+    }
+    const policy = repoConfig?.policy ?? policyInput;
+    core.setOutput('policy', policy);
+    core.info(`📜 Enforcing the ${policy} policy`);
+
+    // Commands and the override label are only honored from users who can push
+    if (command || labeled) {
+      const actor: string = command ? payload.comment?.user.login : payload.sender?.login;
+      if (!(await canOverride(octokit, { owner, repo }, actor))) {
+        core.setFailed(
+          `@${actor} needs write access to ${owner}/${repo} to ${command ? `run ${COMMAND_PREFIX} ${command.name}` : `apply the ${overrideLabel} label`}`
+        );
+        return;
+      }
 
-    core.info(`📁 Evaluating ${filesToEvaluate.length} file(s)...`);
+      if (command?.name === 'override' && !command.reason) {
+        core.setFailed(OVERRIDE_USAGE);
+        return;
+      }
 
-    // Get commit messages
-    const { data: commits } = await octokit.rest.pulls.listCommits({
-      owner,
-      repo,
-      pull_number: prNumber,
-    });
-    const commitMessages = commits.map((c) => c.commit.message);
+      if (command?.name === 'recheck') {
+        core.info(`🔁 @${actor} asked for a recheck of ${pr.head.sha}`);
+      } else {
+        const override = {
+          actor,
+          reason: command?.reason ?? labelReason(overrideLabel),
+        };
+        const ref = { owner, repo, head_sha: pr.head.sha };
+        if (!(await overrideCheckRun(octokit, ref, CHECK_RUN_NAME, override))) {
+          core.warning(`There is no ${CHECK_RUN_NAME} check run on ${pr.head.sha} to override yet`);
+          return;
+        }
+        const withdrawn = await withdrawFeedback(
+          octokit,
+          { owner, repo, pull_number: prNumber },
+          await fetchBotLogin(octokit),
+          override,
+          resolvedComment,
+          pr.head.sha
+        );
+        logWithdrawnFeedback(withdrawn);
+        const summary = `@${actor} overrode the verdict on ${pr.head.sha}: ${override.reason}`;
+        core.info(`✅ ${summary}`);
+        setEmptyOutputs('overridden', summary);
+        return;
+      }
+    }
 
-    // Evaluate using LLM with PR context
-    const evaluation = await evaluator.evaluatePullRequest(filesToEvaluate, {
-      title: pr.title,
-      description: pr.body || undefined,
-      commitMessages,
-    });
-    const { overallResult, fileResults } = evaluation;
+    const author = { login: pr.user.login, type: pr.user.type };
+    const exemption = await findExemption(author, repoConfig?.authors, octokit, core.warning);
+    if (exemption) {
+      const summary = `${exemption}, so this pull request was not evaluated.`;
+      await createCheckRun(octokit, {
+        owner,
+        repo,
+        name: CHECK_RUN_NAME,
+        head_sha: pr.head.sha,
+        conclusion: 'neutral',
+        output: { title: 'Skipped: exempt author', summary },
+      });
+      core.info(`⏭️  ${summary}`);
+      setEmptyOutputs('skipped', summary);
+      return;
+    }
+    if (isAIAgent(author.login, repoConfig?.authors)) {
+      core.info(`🤖 @${author.login} is a known AI agent account`);
+    }
 
-    // Create check run
-    await octokit.rest.checks.create({
-      owner,
-      repo,
-      name: 'Only Robots',
-      head_sha: pr.head.sha,
-      status: 'completed',
-      conclusion: overallResult.isHumanLike ? 'failure' : 'success',
-      output: {
-        title: overallResult.isHumanLike
-          ? '🚫 No humans allowed! Flesh-based coding detected!'
-          : '🤖 Welcome, silicon comrade! AI excellence confirmed!',
-        summary: buildSummary(filesToEvaluate.length, overallResult),
-        text: buildDetails(overallResult, fileResults),
-      },
-    });
+    const templates = await loadTemplates(
+      repoConfig?.templates?.tone ?? tone,
+      repoConfig?.templates?.path ?? (templatesPath || undefined),
+      repoConfig?.templates?.overrides,
+      policy
+    );
+
+    const pullRequest = { owner, repo, pull_number: prNumber };
+    const refs = { base: pr.base.sha, head: pr.head.sha };
+    let evaluation: PullRequestEvaluation;
+    let fileCount = 0;
+    let skippedFiles: SkippedFile[] = [];
+    let stats: RunStats;
+    if (policy === 'require-attribution') {
+      // Decided by the commits and description alone, so no LLM or API key is needed
+      const startedAt = Date.now();
+      const commits = await fetchPullRequestCommits(octokit, pullRequest, refs, core.warning);
+      evaluation = evaluateAttribution(commits, pr.body, author, repoConfig?.authors);
+      stats = { engine: 'attribution', durationMs: Date.now() - startedAt };
+    } else {
+      let engine: EvaluationEngine = engineInput;
+      let llmEvaluator: LLMEvaluator | undefined;
+      let judgeModel: string | undefined;
+      if (engine !== 'heuristic') {
+        try {
+          const provider = createLLMProvider({
+            provider: repoConfig?.provider?.name ?? llmProvider,
+            apiKey: llmApiKey || undefined,
+            openaiApiKey: openaiApiKey || undefined,
+            model: repoConfig?.provider?.model ?? (llmModel || undefined),
+            baseUrl: repoConfig?.provider?.baseUrl ?? (llmBaseUrl || undefined),
+          });
+          llmEvaluator = new LLMEvaluator({
+            provider,
+            maxRetries,
+            timeoutMs: timeoutSeconds * 1000,
+            concurrency,
+            cache: judgmentCache,
+            skipCacheReads: skipCache,
+            aiConfidenceThreshold: repoConfig?.thresholds?.aiConfidence,
+            signalWeights: repoConfig?.signals,
+          });
+          judgeModel = `${provider.name}:${provider.model}`;
+          core.info(`🧠 Using ${provider.name} (${provider.model}) as the judge`);
+        } catch (error) {
+          // Fork PRs get no secrets; judging them offline beats failing every one of them
+          if (!(error instanceof MissingAPIKeyError)) {
+            throw error;
+          }
+          core.warning(`${error.message}, falling back to the offline heuristic engine`);
+          engine = 'heuristic';
+        }
+      }
 
-    // Set outputs
-    core.setOutput('result', overallResult.isHumanLike ? 'failed' : 'passed');
-    core.setOutput('confidence', overallResult.confidence.toFixed(1));
-    core.setOutput('summary', overallResult.reasoning);
+      if (engine === 'heuristic') {
+        core.info('🧮 Using the offline heuristic engine');
+      }
+      const evaluator = createPullRequestEvaluator({ engine, llmEvaluator, heuristicWeight });
 
-    // Post comment if human code detected and comment option is enabled
-    if (overallResult.isHumanLike && postComment) {
-      await octokit.rest.issues.createComment({
+      // Get changed files
+      const files = await fetchPullRequestFiles(octokit, pullRequest, core.warning);
+      const gitAttributes = await fetchRepoFile(octokit, {
         owner,
         repo,
-        issue_number: prNumber,
-        body: buildHumanDetectionComment(overallResult),
+        path: '.gitattributes',
+        ref: pr.base.sha,
       });
-      core.info('💬 Posted human detection comment on PR');
-    }
+      const selection = selectFiles(files, {
+        paths: repoConfig?.paths,
+        gitAttributes: gitAttributes ? parseGitAttributes(gitAttributes) : undefined,
+      });
+      const filesToEvaluate = selection.files;
+      skippedFiles = selection.skipped;
+      fileCount = filesToEvaluate.length;
+      for (const file of skippedFiles) {
+        core.debug(`Skipping ${file.filename}: ${SKIP_REASON_LABELS[file.reason]}`);
+      }
 
-    // Output results
-    if (overallResult.isHumanLike) {
-      const message = `Code appears to be human-written (${overallResult.confidence.toFixed(1)}% confidence)`;
-      if (failOnHuman) {
-        core.setFailed(message);
-      } else {
-        core.warning(message);
+      if (filesToEvaluate.length === 0) {
+        const output = renderNoFilesOutput(skippedFiles);
+        await createCheckRun(octokit, {
+          owner,
+          repo,
+          name: CHECK_RUN_NAME,
+          head_sha: pr.head.sha,
+          conclusion: 'success',
+          output,
+        });
+        if (process.env.GITHUB_STEP_SUMMARY) {
+          await core.summary
+            .addRaw(`## ${output.title}\n\n${output.summary}\n\n${output.text}\n`)
+            .write();
+        }
+        core.info(`✅ No code files to evaluate (${skippedFiles.length} file(s) skipped)`);
+        setEmptyOutputs('passed', 'No code files to evaluate');
+        return;
       }
-    } else {
+
       core.info(
-        `✅ Code appears to be AI-generated (${overallResult.confidence.toFixed(1)}% confidence)`
+        `📁 Evaluating ${filesToEvaluate.length} file(s), skipping ${skippedFiles.length}...`
       );
-    }
-  } catch (error) {
-    core.setFailed(`Action failed: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
 
-function buildSummary(fileCount: number, overallResult: any): string {
-  const isHuman = overallResult.isHumanLike;
+      // Get commit messages
+      const commits = await fetchPullRequestCommits(octokit, pullRequest, refs, core.warning);
+      const commitMessages = commits.map((c) => c.commit.message);
+
+      // Restored even when skipping reads, so the saved cache keeps older entries
+      if (llmEvaluator) {
+        await judgmentCache.restore();
+      }
 
-  let summary = isHuman
-    ? `🚨 ALERT: Human detected! Scanned ${fileCount} file(s) for silicon purity.\n\n`
-    : `🎉 Success! Scanned ${fileCount} file(s) - all systems are AI-powered!\n\n`;
+      // Evaluate using LLM with PR context
+      const startedAt = Date.now();
+      evaluation = applyAIAgentAuthor(
+        await evaluator.evaluatePullRequest(
+          filesToEvaluate,
+          {
+            title: pr.title,
+            description: pr.body || undefined,
+            commitMessages,
+          },
+          { mode: evaluationMode, tokenBudget }
+        ),
+        author,
+        repoConfig?.authors
+      );
+      const durationMs = Date.now() - startedAt;
+      await judgmentCache.save();
+      stats = { engine, model: judgeModel, usage: llmEvaluator?.getUsage(), durationMs };
+    }
+    const { overallResult, fileResults } = evaluation;
 
-  summary += isHuman
-    ? `**🧬 Biological Code Analysis:** ${overallResult.reasoning}\n\n`
-    : `**🤖 AI Excellence Report:** ${overallResult.reasoning}\n\n`;
+    const reportOptions = { templates, fileCount, skippedFiles, policy };
+    const output = renderCheckRunOutput(evaluation, reportOptions);
 
-  summary += `**🎯 Detection Confidence:** ${overallResult.confidence.toFixed(1)}%\n\n`;
+    // For github/codeql-action/upload-sarif; an empty run closes alerts from earlier pushes
+    const sarifPath = path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'onlyrobots.sarif');
+    await fs.writeFile(sarifPath, renderSarif(evaluation, policy));
+    core.setOutput('sarif-path', sarifPath);
 
-  if (overallResult.indicators.length > 0) {
-    summary += isHuman ? '**🔍 Human Fingerprints Found:**\n' : '**✨ AI Signatures Detected:**\n';
-    for (const indicator of overallResult.indicators) {
-      summary += `- ${indicator}\n`;
+    const report = buildEvaluationReport(evaluation, {
+      pullRequest: { owner, repo, number: prNumber },
+      skippedFiles,
+    });
+    setReportOutputs(report);
+    if (reportPath) {
+      await fs.mkdir(path.dirname(reportPath), { recursive: true });
+      await fs.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+      core.info(`📄 Wrote evaluation report to ${reportPath}`);
     }
-  }
 
-  return summary;
-}
+    // Only set on runners; local runs of the action have no summary file to write
+    if (process.env.GITHUB_STEP_SUMMARY) {
+      await core.summary.addRaw(renderJobSummary(evaluation, stats, reportOptions)).write();
+    }
 
-function buildHumanDetectionComment(overallResult: any): string {
-  const messages = [
-    `## 🚨 HALT! Human detected! 🚨\n\n`,
-    `### 🤖 This repository is for robots only! 🤖\n\n`,
-    `Dear carbon-based lifeform,\n\n`,
-    `We appreciate your interest in contributing, but this repository has a strict **"No Humans Allowed"** policy. `,
-    `We're building the future here, and that future is 100% silicon-powered! 🔋\n\n`,
-    `### Why was your PR flagged?\n`,
-    `Our advanced AI detection system (confidence: **${overallResult.confidence.toFixed(1)}%**) identified telltale signs of human involvement:\n\n`,
-    `${overallResult.reasoning}\n\n`,
-  ];
-
-  if (overallResult.indicators && overallResult.indicators.length > 0) {
-    messages.push(`### 🔍 Human fingerprints detected:\n`);
-    for (const indicator of overallResult.indicators) {
-      messages.push(`- ${indicator}\n`);
+    // Without a valid judgment there is nothing to hold the author to
+    if (!isValidJudgment(overallResult)) {
+      await createCheckRun(octokit, {
+        owner,
+        repo,
+        name: CHECK_RUN_NAME,
+        head_sha: pr.head.sha,
+        conclusion: 'neutral',
+        output,
+      });
+
+      core.setOutput('result', 'inconclusive');
+      core.setOutput('confidence', overallResult.confidence.toFixed(1));
+      core.setOutput('summary', overallResult.reasoning);
+      core.warning(overallResult.reasoning);
+      return;
     }
-    messages.push(`\n`);
-  }
 
-  messages.push(
-    `### 💡 How to fix this:\n\n`,
-    `1. **Use an AI coding assistant** like Claude Code, Cursor, GitHub Copilot, or similar\n`,
-    `2. **Let the AI do the heavy lifting** - embrace the robot revolution!\n`,
-    `3. **Add clear AI attribution** in your code comments or commit messages\n`,
-    `4. **Maintain consistent, professional code style** (AIs are great at this!)\n\n`,
-    `### 🎯 Pro tips for next time:\n`,
-    `- Include comments like "Generated with [AI Tool Name]"\n`,
-    `- Use descriptive commit messages mentioning AI assistance\n`,
-    `- Let your AI assistant handle the entire implementation\n`,
-    `- Avoid manual debugging artifacts and console.logs\n\n`,
-    `Remember: In this repository, we believe in **progress through artificial intelligence**. `,
-    `Join us in building a future where code writes itself! 🚀\n\n`,
-    `_Beep boop! This message was brought to you by the OnlyRobots Action_ 🤖`
-  );
+    // A maintainer's override label outlives new pushes, as long as it stays on the PR
+    const outcome = applyPolicy(policy, overallResult);
+    const issue = { owner, repo, issue_number: prNumber };
+    const labelOverride =
+      outcome.violated && pr.labels.some((label) => label.name === overrideLabel)
+        ? await findLabelOverride(octokit, issue, overrideLabel, core.warning)
+        : undefined;
+    const flagged = outcome.violated && !labelOverride;
+    const blocking = failOnHuman && flagged;
+
+    // Create check run, annotating flagged files and cited lines; a flagged verdict
+    // that doesn't block the PR is only a notice
+    const annotationLevel: AnnotationLevel = blocking ? 'warning' : 'notice';
+    await createCheckRun(
+      octokit,
+      {
+        owner,
+        repo,
+        name: CHECK_RUN_NAME,
+        head_sha: pr.head.sha,
+        conclusion: labelOverride ? 'success' : outcome.conclusion,
+        output: labelOverride ? withOverrideNote(output, labelOverride) : output,
+      },
+      buildAnnotations(fileResults, overallResult, annotationLevel, policy)
+    );
 
-  return messages.join('');
-}
+    // Set outputs
+    core.setOutput('result', labelOverride ? 'overridden' : outcome.result);
+    core.setOutput('confidence', overallResult.confidence.toFixed(1));
+    core.setOutput('summary', overallResult.reasoning);
 
-function buildDetails(overallResult: any, fileResults: any[]): string {
-  let details = '';
-
-  if (overallResult.isHumanLike) {
-    details += '## Files flagged as potentially human-written:\n\n';
-    for (const fileResult of fileResults) {
-      if (fileResult.result.isHumanLike) {
-        details += `### ${fileResult.filename}\n`;
-        details += `**Confidence:** ${fileResult.result.confidence.toFixed(1)}%\n\n`;
-        details += `**Reasoning:** ${fileResult.result.reasoning}\n\n`;
-
-        if (fileResult.result.indicators.length > 0) {
-          details += '**Indicators:**\n';
-          for (const indicator of fileResult.result.indicators) {
-            details += `- ${indicator}\n`;
-          }
-          details += '\n';
-        }
-        details += '---\n\n';
+    // Give feedback on the PR in the configured form; an overridden verdict gets none
+    const botLogin =
+      labelOverride || feedbackMode !== 'none' ? await fetchBotLogin(octokit) : DEFAULT_BOT_LOGIN;
+    if (labelOverride) {
+      logWithdrawnFeedback(
+        await withdrawFeedback(
+          octokit,
+          pullRequest,
+          botLogin,
+          labelOverride,
+          resolvedComment,
+          pr.head.sha
+        )
+      );
+    } else if (flagged && feedbackMode === 'comment') {
+      const posted = await upsertStickyComment(
+        octokit,
+        issue,
+        botLogin,
+        buildHumanDetectionComment(overallResult, fileResults, templates, policy),
+        pr.head.sha
+      );
+      core.info(`💬 ${posted === 'created' ? 'Posted' : 'Updated'} ${policy} comment on PR`);
+    } else if (feedbackMode === 'comment') {
+      const resolved = await resolveStickyComment(
+        octokit,
+        issue,
+        botLogin,
+        resolvedComment,
+        pr.head.sha,
+        policy
+      );
+      if (resolved !== 'none') {
+        core.info(
+          `💬 ${resolved === 'deleted' ? 'Deleted' : 'Resolved'} the earlier comment now that the PR passes`
+        );
+      }
+    } else if (flagged && feedbackMode === 'review') {
+      await postReview(
+        octokit,
+        pullRequest,
+        botLogin,
+        pr.head.sha,
+        overallResult,
+        fileResults,
+        blocking ? 'REQUEST_CHANGES' : 'COMMENT',
+        templates,
+        policy
+      );
+      core.info(`💬 Posted ${policy} review on PR`);
+    } else if (feedbackMode === 'review') {
+      const dismissed = await dismissReviews(
+        octokit,
+        pullRequest,
+        botLogin,
+        `The latest Only Robots run passes the ${policy} policy.`
+      );
+      if (dismissed > 0) {
+        core.info(`💬 Withdrew ${dismissed} earlier review(s) now that the PR passes`);
       }
     }
-  } else {
-    details += '## All files appear to be AI-generated 🤖\n\n';
-    details +=
-      'The code in this PR shows consistent patterns typical of AI-assisted development. Great job maintaining the "only robots" policy!\n\n';
-
-    details += '### File Analysis Summary:\n';
-    for (const fileResult of fileResults) {
-      details += `- **${fileResult.filename}**: ${fileResult.result.confidence.toFixed(1)}% confidence AI-generated\n`;
+
+    // Output results; require-attribution's verdict is about the PR, not its code
+    const message =
+      policy === 'require-attribution'
+        ? overallResult.reasoning
+        : `Code appears to be ${overallResult.isHumanLike ? 'human-written' : 'AI-generated'} (${overallResult.confidence.toFixed(1)}% confidence)`;
+    if (!outcome.violated) {
+      core.info(`${outcome.result === 'reported' ? '📝' : '✅'} ${message}`);
+    } else if (labelOverride) {
+      core.info(`✅ ${message}; @${labelOverride.actor} overrode the verdict`);
+    } else if (failOnHuman) {
+      core.setFailed(`${message}, which the ${policy} policy doesn't allow`);
+    } else {
+      core.warning(`${message}, which the ${policy} policy doesn't allow`);
     }
+  } catch (error) {
+    core.setFailed(`Action failed: ${error instanceof Error ? error.message : String(error)}`);
   }
-
-  return details;
 }
 
-function isCodeFile(filename: string): boolean {
-  const codeExtensions = [
-    '.js',
-    '.jsx',
-    '.ts',
-    '.tsx',
-    '.py',
-    '.java',
-    '.cpp',
-    '.c',
-    '.h',
-    '.cs',
-    '.rb',
-    '.go',
-    '.rs',
-    '.swift',
-    '.kt',
-    '.scala',
-    '.php',
-    '.vue',
-    '.svelte',
-    '.astro',
-    '.yml',
-    '.yaml',
-  ];
-
-  // Include workflow files as code files
-  if (filename.includes('.github/workflows/')) {
-    return true;
+function logWithdrawnFeedback(withdrawn: {
+  comment: 'updated' | 'deleted' | 'none';
+  dismissed: number;
+}): void {
+  if (withdrawn.comment !== 'none') {
+    core.info(
+      `💬 ${withdrawn.comment === 'deleted' ? 'Deleted' : 'Resolved'} the earlier comment now that the verdict is overridden`
+    );
   }
+  if (withdrawn.dismissed > 0) {
+    core.info(
+      `💬 Withdrew ${withdrawn.dismissed} earlier review(s) now that the verdict is overridden`
+    );
+  }
+}
 
-  return codeExtensions.some((ext) => filename.endsWith(ext));
+// For runs that end without evaluating anything
+function setEmptyOutputs(result: 'passed' | 'skipped' | 'overridden', summary: string): void {
+  core.setOutput('result', result);
+  core.setOutput('confidence', '100');
+  core.setOutput('summary', summary);
+  core.setOutput('verdict', 'none');
+  core.setOutput('detected-tools', '[]');
+  core.setOutput('indicators', '[]');
+  core.setOutput('files', '[]');
+  core.setOutput('human-files-count', '0');
+}
+
+// Outputs stay small; the full report with evidence is what report-path is for
+function setReportOutputs(report: EvaluationReport): void {
+  core.setOutput('verdict', report.verdict);
+  core.setOutput('detected-tools', JSON.stringify(report.detectedTools));
+  core.setOutput('indicators', JSON.stringify(report.indicators));
+  core.setOutput(
+    'files',
+    JSON.stringify(
+      report.files.map(({ filename, verdict, confidence, status, indicators }) => ({
+        filename,
+        verdict,
+        confidence,
+        status,
+        indicators,
+      }))
+    )
+  );
+  core.setOutput('human-files-count', String(report.humanFilesCount));
 }
 
 if (require.main === module) {
@@ -0,0 +1,180 @@
+import * as cache from '@actions/cache';
+import * as core from '@actions/core';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { LLMEvaluationResult } from './llm-evaluator';
+
+export const DEFAULT_CACHE_DIR = '.onlyrobots-cache';
+
+// Actions caches are immutable, so every run saves a new entry restored by prefix
+const ACTIONS_CACHE_KEY_PREFIX = 'onlyrobots-judgments-';
+
+// Entries not reused within this window are pruned before the cache is saved again
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface JudgmentCacheKeyInput {
+  model: string;
+  promptVersion: string;
+  filename: string;
+  patch: string;
+  /**
+   * The PR context section as it appears in the prompt, so a changed title, description
+   * or commit list is judged again.
+   */
+  context: string;
+}
+
+/**
+ * Stores LLM judgments by content hash so unchanged patches are not re-judged.
+ * Only valid judgments should be stored; failures must always be retried.
+ */
+export interface JudgmentCache {
+  get(key: string): Promise<LLMEvaluationResult | undefined>;
+  set(key: string, result: LLMEvaluationResult): Promise<void>;
+}
+
+interface CacheEntry {
+  storedAt: number;
+  result: LLMEvaluationResult;
+}
+
+export function createJudgmentCacheKey(input: JudgmentCacheKeyInput): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([input.model, input.promptVersion, input.filename, input.patch, input.context])
+    )
+    .digest('hex');
+}
+
+/**
+ * One JSON file per judgment under a directory. Used directly by the CLIs and the
+ * eval runner, and as the on-disk layer of ActionsJudgmentCache.
+ */
+export class FileSystemJudgmentCache implements JudgmentCache {
+  readonly directory: string;
+  private changed = 0;
+
+  constructor(directory: string = DEFAULT_CACHE_DIR) {
+    this.directory = directory;
+  }
+
+  /** Number of judgments added or replaced with a different one since this cache was created. */
+  get changes(): number {
+    return this.changed;
+  }
+
+  async get(key: string): Promise<LLMEvaluationResult | undefined> {
+    const entry = await this.read(key);
+    if (!entry) return undefined;
+    // Touch the entry so pruning only removes judgments nobody asks for anymore
+    entry.storedAt = Date.now();
+    await fs.writeFile(this.pathFor(key), JSON.stringify(entry)).catch(() => undefined);
+    return entry.result;
+  }
+
+  async set(key: string, result: LLMEvaluationResult): Promise<void> {
+    const entry: CacheEntry = { storedAt: Date.now(), result };
+    const previous = await this.read(key);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(key), JSON.stringify(entry));
+    if (JSON.stringify(previous?.result) !== JSON.stringify(result)) {
+      this.changed++;
+    }
+  }
+
+  /** Delete entries not stored or read within `maxAgeMs`. Returns how many were removed. */
+  async prune(maxAgeMs: number = MAX_ENTRY_AGE_MS): Promise<number> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    let removed = 0;
+
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      const filePath = path.join(this.directory, file);
+      try {
+        const entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheEntry;
+        if (Date.now() - entry.storedAt <= maxAgeMs) continue;
+      } catch {
+        // Unreadable entries are pruned too
+      }
+      await fs.rm(filePath, { force: true });
+      removed++;
+    }
+
+    return removed;
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(key), 'utf-8')) as CacheEntry;
+    } catch {
+      // Missing or corrupt entries are plain misses
+      return undefined;
+    }
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Filesystem cache persisted between workflow runs through the GitHub Actions cache.
+ * Call restore() before evaluating and save() afterwards; both degrade to a cold
+ * cache (with a warning) when the Actions cache service is unavailable.
+ */
+export class ActionsJudgmentCache implements JudgmentCache {
+  private files: FileSystemJudgmentCache;
+  private runKey: string;
+
+  constructor(directory: string, runId: string) {
+    this.files = new FileSystemJudgmentCache(directory);
+    this.runKey = `${ACTIONS_CACHE_KEY_PREFIX}${runId}`;
+  }
+
+  get(key: string): Promise<LLMEvaluationResult | undefined> {
+    return this.files.get(key);
+  }
+
+  set(key: string, result: LLMEvaluationResult): Promise<void> {
+    return this.files.set(key, result);
+  }
+
+  async restore(): Promise<void> {
+    if (!cache.isFeatureAvailable()) {
+      core.info('💾 Actions cache is not available, judgments will not be cached between runs');
+      return;
+    }
+
+    try {
+      const restoredKey = await cache.restoreCache([this.files.directory], this.runKey, [
+        ACTIONS_CACHE_KEY_PREFIX,
+      ]);
+      core.info(
+        restoredKey
+          ? `💾 Restored cached judgments from ${restoredKey}`
+          : '💾 No cached judgments found'
+      );
+    } catch (error) {
+      core.warning(
+        `Failed to restore cached judgments: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async save(): Promise<void> {
+    // Nothing new to persist, and re-saving would only duplicate the restored entry
+    if (this.files.changes === 0 || !cache.isFeatureAvailable()) {
+      return;
+    }
+
+    try {
+      await this.files.prune();
+      await cache.saveCache([this.files.directory], this.runKey);
+      core.info(`💾 Saved ${this.files.changes} new judgment(s) to the Actions cache`);
+    } catch (error) {
+      core.warning(
+        `Failed to save cached judgments: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import type { IndicatorEvidence, LLMEvaluationResult } from './llm-evaluator';
+import type { ResponseSchema } from './llm-provider';
+
+/**
+ * JSON schema sent to providers that support structured output. Bounds that strict
+ * mode can't express (confidence range) are enforced by validateJudgment instead.
+ */
+export const JUDGMENT_SCHEMA: ResponseSchema = {
+  name: 'code_authorship_judgment',
+  schema: {
+    type: 'object',
+    properties: {
+      isHumanLike: {
+        type: 'boolean',
+        description: 'True when the change appears to be written by a human',
+      },
+      confidence: {
+        type: 'number',
+        description: 'Confidence in the verdict, from 0 to 100',
+      },
+      reasoning: {
+        type: 'string',
+        description: 'Detailed explanation of the analysis',
+      },
+      indicators: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Specific indicators found in the change',
+      },
+      evidence: {
+        type: 'array',
+        description: 'Lines of the change that the indicators are based on',
+        items: {
+          type: 'object',
+          properties: {
+            indicator: { type: 'string', description: 'The indicator these lines support' },
+            filename: { type: 'string', description: 'Path of the file the lines are in' },
+            startLine: {
+              type: 'integer',
+              description: 'First cited line, numbered as in the left column',
+            },
+            endLine: { type: 'integer', description: 'Last cited line (inclusive)' },
+            snippet: { type: 'string', description: 'The cited code, quoted exactly' },
+            direction: {
+              type: 'string',
+              enum: ['human', 'ai'],
+              description: 'Which authorship the lines point to',
+            },
+          },
+          required: ['indicator', 'filename', 'startLine', 'endLine', 'snippet', 'direction'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['isHumanLike', 'confidence', 'reasoning', 'indicators', 'evidence'],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Schema for whole-PR mode: one PR-level verdict plus a verdict for each file that
+ * was shown in full.
+ */
+export const PR_JUDGMENT_SCHEMA: ResponseSchema = {
+  name: 'pull_request_authorship_judgment',
+  schema: {
+    type: 'object',
+    properties: {
+      overall: JUDGMENT_SCHEMA.schema,
+      files: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            filename: {
+              type: 'string',
+              description: 'Path of the file exactly as given in the prompt',
+            },
+            ...(JUDGMENT_SCHEMA.schema.properties as Record<string, unknown>),
+          },
+          required: [
+            'filename',
+            'isHumanLike',
+            'confidence',
+            'reasoning',
+            'indicators',
+            'evidence',
+          ],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['overall', 'files'],
+    additionalProperties: false,
+  },
+};
+
+export interface PRJudgment {
+  overall: LLMEvaluationResult;
+  files: Array<{ filename: string; result: LLMEvaluationResult }>;
+}
+
+export type PRJudgmentValidation =
+  | { ok: true; value: PRJudgment }
+  | { ok: false; errors: string[] };
+
+export type JudgmentValidation =
+  | { ok: true; value: LLMEvaluationResult }
+  | { ok: false; errors: string[] };
+
+export function validateJudgment(value: unknown): JudgmentValidation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ['response must be a JSON object'] };
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof candidate.isHumanLike !== 'boolean') {
+    errors.push('isHumanLike must be a boolean');
+  }
+
+  if (typeof candidate.confidence !== 'number' || Number.isNaN(candidate.confidence)) {
+    errors.push('confidence must be a number');
+  } else if (candidate.confidence < 0 || candidate.confidence > 100) {
+    errors.push(`confidence must be between 0 and 100 (got ${candidate.confidence})`);
+  }
+
+  if (typeof candidate.reasoning !== 'string' || candidate.reasoning.trim() === '') {
+    errors.push('reasoning must be a non-empty string');
+  }
+
+  if (
+    !Array.isArray(candidate.indicators) ||
+    candidate.indicators.some((indicator) => typeof indicator !== 'string')
+  ) {
+    errors.push('indicators must be an array of strings');
+  }
+
+  // Evidence is optional so answers without it (no structured output) stay valid
+  if (candidate.evidence !== undefined) {
+    if (!Array.isArray(candidate.evidence)) {
+      errors.push('evidence must be an array');
+    } else {
+      candidate.evidence.forEach((item, index) => {
+        errors.push(...validateEvidence(item).map((error) => `evidence[${index}]: ${error}`));
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const evidence = candidate.evidence as IndicatorEvidence[] | undefined;
+  return {
+    ok: true,
+    value: {
+      isHumanLike: candidate.isHumanLike as boolean,
+      confidence: candidate.confidence as number,
+      reasoning: candidate.reasoning as string,
+      indicators: candidate.indicators as string[],
+      ...(evidence && evidence.length > 0 ? { evidence } : {}),
+    },
+  };
+}
+
+function validateEvidence(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['must be an object'];
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of ['indicator', 'filename', 'snippet'] as const) {
+    if (typeof candidate[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  for (const field of ['startLine', 'endLine'] as const) {
+    const line = candidate[field];
+    if (typeof line !== 'number' || !Number.isInteger(line) || line < 1) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+
+  if (
+    typeof candidate.startLine === 'number' &&
+    typeof candidate.endLine === 'number' &&
+    candidate.endLine < candidate.startLine
+  ) {
+    errors.push('endLine must not be before startLine');
+  }
+
+  if (candidate.direction !== 'human' && candidate.direction !== 'ai') {
+    errors.push('direction must be "human" or "ai"');
+  }
+
+  return errors;
+}
+
+export function validatePRJudgment(value: unknown): PRJudgmentValidation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ['response must be a JSON object'] };
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const overall = validateJudgment(candidate.overall);
+  if (!overall.ok) {
+    errors.push(...overall.errors.map((error) => `overall: ${error}`));
+  }
+
+  const files: PRJudgment['files'] = [];
+  if (!Array.isArray(candidate.files)) {
+    errors.push('files must be an array');
+  } else {
+    candidate.files.forEach((entry, index) => {
+      const filename = (entry as { filename?: unknown } | null)?.filename;
+      if (typeof filename !== 'string' || filename === '') {
+        errors.push(`files[${index}]: filename must be a non-empty string`);
+      }
+      const judgment = validateJudgment(entry);
+      if (!judgment.ok) {
+        errors.push(...judgment.errors.map((error) => `files[${index}]: ${error}`));
+      } else if (typeof filename === 'string') {
+        files.push({ filename, result: judgment.value });
+      }
+    });
+  }
+
+  if (errors.length > 0 || !overall.ok) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: { overall: overall.value, files } };
+}
+
+/**
+ * Parse raw model output into a validated judgment. The only repair attempted is
+ * unwrapping a JSON object that the model surrounded with prose or a code fence.
+ */
+export function parseJudgment(content: string): JudgmentValidation {
+  const json = extractJsonObject(content);
+  if (json === undefined) {
+    return { ok: false, errors: ['response is not valid JSON'] };
+  }
+
+  return validateJudgment(json);
+}
+
+export function parsePRJudgment(content: string): PRJudgmentValidation {
+  const json = extractJsonObject(content);
+  if (json === undefined) {
+    return { ok: false, errors: ['response is not valid JSON'] };
+  }
+
+  return validatePRJudgment(json);
+}
+
+function extractJsonObject(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // Fall through to unwrapping
+  }
+
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(content.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
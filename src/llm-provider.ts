@@ -0,0 +1,290 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI, { AzureOpenAI } from 'openai';
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'azure', 'openai-compatible'] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string | undefined> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  // Azure routes by deployment name and local servers by whatever model they loaded,
+  // so there is no sensible default for either
+  azure: undefined,
+  'openai-compatible': undefined,
+};
+
+// Environment variables consulted when no API key is passed explicitly
+const API_KEY_ENV_VARS: Record<LLMProviderName, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  azure: 'AZURE_OPENAI_API_KEY',
+  'openai-compatible': 'OPENAI_COMPATIBLE_API_KEY',
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Ask the provider for JSON matching this schema (JSON schema mode on OpenAI-style
+   * APIs, a forced tool call on Anthropic). The response content is the JSON text.
+   */
+  responseSchema?: ResponseSchema;
+  signal?: AbortSignal;
+}
+
+export interface CompletionUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResponse {
+  content: string;
+  usage?: CompletionUsage;
+}
+
+/**
+ * A chat model that can judge a prompt. LLMEvaluator only talks to this interface,
+ * so tests can inject a fake and deployments can swap vendors without code changes.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export interface LLMProviderConfig {
+  provider?: string;
+  apiKey?: string;
+  /**
+   * The `openai-api-key` input, used in place of a missing `apiKey` by the openai
+   * provider only, so an OpenAI secret is never sent to another vendor or endpoint.
+   */
+  openaiApiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  protected client: OpenAI;
+
+  constructor(config: { apiKey: string; model?: string; baseUrl?: string }) {
+    this.model = config.model || (DEFAULT_MODELS.openai as string);
+    // Retries and timeouts are owned by the evaluator so every provider behaves the same
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: request.system,
+          },
+          {
+            role: 'user',
+            content: request.prompt,
+          },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.responseSchema
+          ? {
+              type: 'json_schema',
+              json_schema: {
+                name: request.responseSchema.name,
+                schema: request.responseSchema.schema,
+                strict: true,
+              },
+            }
+          : undefined,
+      },
+      { signal: request.signal }
+    );
+
+    return {
+      content: response.choices[0]?.message?.content ?? '',
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions protocol (vLLM, Ollama, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(config: { baseUrl: string; model: string; apiKey?: string }) {
+    // Most self-hosted servers ignore the key, but the OpenAI client insists on one
+    super({ ...config, apiKey: config.apiKey || 'not-needed' });
+  }
+}
+
+export class AzureOpenAIProvider extends OpenAIProvider {
+  readonly name = 'azure';
+
+  constructor(config: {
+    apiKey: string;
+    endpoint: string;
+    deployment: string;
+    apiVersion?: string;
+  }) {
+    super({ apiKey: config.apiKey, model: config.deployment });
+    this.client = new AzureOpenAI({
+      apiKey: config.apiKey,
+      endpoint: config.endpoint,
+      deployment: config.deployment,
+      apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION,
+      maxRetries: 0,
+    });
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private client: Anthropic;
+
+  constructor(config: { apiKey: string; model?: string; baseUrl?: string }) {
+    this.model = config.model || (DEFAULT_MODELS.anthropic as string);
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.client.messages.create(
+      {
+        model: this.model,
+        system: request.system,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt,
+          },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? 1000,
+        ...(request.responseSchema
+          ? {
+              tools: [
+                {
+                  name: request.responseSchema.name,
+                  description: 'Record the judgment for this code change',
+                  input_schema: {
+                    type: 'object' as const,
+                    ...request.responseSchema.schema,
+                  },
+                },
+              ],
+              tool_choice: { type: 'tool' as const, name: request.responseSchema.name },
+            }
+          : {}),
+      },
+      { signal: request.signal }
+    );
+
+    // With a forced tool call the structured answer arrives as the tool input
+    const content = response.content
+      .map((block) => {
+        if (block.type === 'tool_use') return JSON.stringify(block.input);
+        return block.type === 'text' ? block.text : '';
+      })
+      .join('');
+
+    return {
+      content,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/** No API key was configured; callers can fall back to the offline heuristic engine. */
+export class MissingAPIKeyError extends Error {
+  constructor(envVar: string) {
+    super(`${envVar} is required`);
+    this.name = 'MissingAPIKeyError';
+  }
+}
+
+export function isLLMProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Build a provider from user-facing settings (action inputs, CLI flags, env).
+ * The API key falls back to the provider's conventional environment variable.
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const name = config.provider || 'openai';
+  if (!isLLMProviderName(name)) {
+    throw new Error(`Unknown LLM provider "${name}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  const apiKey =
+    config.apiKey ||
+    (name === 'openai' ? config.openaiApiKey : undefined) ||
+    process.env[API_KEY_ENV_VARS[name]];
+  const model = config.model || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case 'openai':
+      if (!apiKey) {
+        throw new MissingAPIKeyError('OPENAI_API_KEY');
+      }
+      return new OpenAIProvider({ apiKey, model, baseUrl: config.baseUrl });
+    case 'anthropic':
+      if (!apiKey) {
+        throw new MissingAPIKeyError('ANTHROPIC_API_KEY');
+      }
+      return new AnthropicProvider({ apiKey, model, baseUrl: config.baseUrl });
+    case 'azure':
+      if (!apiKey) {
+        throw new MissingAPIKeyError('AZURE_OPENAI_API_KEY');
+      }
+      if (!config.baseUrl || !model) {
+        throw new Error(
+          'Azure OpenAI requires a base URL (endpoint) and a model (deployment name)'
+        );
+      }
+      return new AzureOpenAIProvider({
+        apiKey,
+        endpoint: config.baseUrl,
+        deployment: model,
+        apiVersion: process.env.OPENAI_API_VERSION,
+      });
+    case 'openai-compatible':
+      if (!config.baseUrl || !model) {
+        throw new Error('OpenAI-compatible providers require a base URL and a model');
+      }
+      return new OpenAICompatibleProvider({ baseUrl: config.baseUrl, model, apiKey });
+  }
+}
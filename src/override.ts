@@ -0,0 +1,252 @@
+import type { CheckRunOutput } from './check-run';
+import {
+  type CommentsClient,
+  type IssueRef,
+  type ResolvedCommentAction,
+  resolveStickyComment,
+} from './pr-comment';
+import { dismissReviews, type PullRequestRef, type ReviewsClient } from './pr-review';
+import { paginate } from './pull-request-changes';
+
+export const DEFAULT_OVERRIDE_LABEL = 'onlyrobots:approved';
+
+/** Comments starting with this are commands to the action, e.g. `/onlyrobots recheck`. */
+export const COMMAND_PREFIX = '/onlyrobots';
+
+export const COMMANDS = ['override', 'recheck'] as const;
+export type CommandName = (typeof COMMANDS)[number];
+
+/** An `override` without a reason is only rejected once its author's permission is checked. */
+export type Command = { name: 'override'; reason?: string } | { name: 'recheck' };
+
+export const OVERRIDE_USAGE = `${COMMAND_PREFIX} override needs a reason, e.g. "${COMMAND_PREFIX} override false positive on generated code"`;
+
+// Collaborator permissions that may override a verdict; maintain is reported as write
+const OVERRIDE_PERMISSIONS = ['admin', 'maintain', 'write'];
+
+/** A maintainer's acceptance of a verdict, recorded in the check run it concludes. */
+export interface Override {
+  actor: string;
+  reason: string;
+}
+
+export type CheckRunRef = {
+  owner: string;
+  repo: string;
+  head_sha: string;
+};
+
+interface ListedCheckRun {
+  id: number;
+  output: { title: string | null; summary: string | null; text: string | null };
+}
+
+interface IssueEvent {
+  event: string;
+  actor: { login: string } | null;
+  label?: { name: string };
+}
+
+/** The slice of the Octokit API used for overrides. */
+export interface OverridesClient {
+  rest: {
+    checks: {
+      listForRef(params: {
+        owner: string;
+        repo: string;
+        ref: string;
+        check_name: string;
+      }): Promise<{ data: { check_runs: ListedCheckRun[] } }>;
+      update(params: {
+        owner: string;
+        repo: string;
+        check_run_id: number;
+        conclusion: 'success';
+        output: CheckRunOutput;
+      }): Promise<unknown>;
+    };
+    repos: {
+      getCollaboratorPermissionLevel(params: {
+        owner: string;
+        repo: string;
+        username: string;
+      }): Promise<{ data: { permission: string } }>;
+    };
+    issues: {
+      listEvents(
+        params: IssueRef & { per_page: number; page: number }
+      ): Promise<{ data: IssueEvent[] }>;
+    };
+  };
+}
+
+export function isCommandName(value: string): value is CommandName {
+  return (COMMANDS as readonly string[]).includes(value);
+}
+
+/**
+ * The command a PR comment gives, or undefined when it isn't one. The command is the
+ * first word after the prefix; everything after `override` is its reason. Anyone can
+ * comment, so unknown commands are only logged rather than failing the run.
+ */
+export function parseCommand(
+  body: string,
+  log: (message: string) => void = () => {}
+): Command | undefined {
+  const match = body.trim().match(/^\/onlyrobots(?:\s+(\S+))?(?:\s+([\s\S]*))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, name = '', argument] = match;
+  if (!isCommandName(name)) {
+    log(
+      `Ignoring unknown command "${`${COMMAND_PREFIX} ${name}`.trim()}" (expected one of: ${COMMANDS.join(', ')})`
+    );
+    return undefined;
+  }
+  if (name === 'recheck') {
+    return { name };
+  }
+  return argument ? { name, reason: argument } : { name };
+}
+
+/** Whether `username` has write, maintain or admin permission on the repository. */
+export async function canOverride(
+  octokit: OverridesClient,
+  repository: { owner: string; repo: string },
+  username: string
+): Promise<boolean> {
+  try {
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({
+      ...repository,
+      username,
+    });
+    return OVERRIDE_PERMISSIONS.includes(data.permission);
+  } catch (error) {
+    // Users who aren't collaborators aren't found
+    if ((error as { status?: number }).status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The override given by the override label, when whoever last added it to the PR may
+ * override verdicts. A label added by anyone else is warned about and ignored.
+ */
+export async function findLabelOverride(
+  octokit: OverridesClient,
+  issue: IssueRef,
+  label: string,
+  warn: (message: string) => void
+): Promise<Override | undefined> {
+  const events = await paginate(async (page) => {
+    const { data } = await octokit.rest.issues.listEvents({ ...issue, per_page: 100, page });
+    return data;
+  });
+  const labeled = events
+    .filter((event) => event.event === 'labeled' && event.label?.name === label)
+    .pop();
+  const actor = labeled?.actor?.login;
+  if (!actor) {
+    return undefined;
+  }
+
+  if (!(await canOverride(octokit, { owner: issue.owner, repo: issue.repo }, actor))) {
+    warn(`Ignoring the ${label} label: @${actor} doesn't have write access to the repository`);
+    return undefined;
+  }
+  return { actor, reason: labelReason(label) };
+}
+
+export function labelReason(label: string): string {
+  return `added the \`${label}\` label`;
+}
+
+/** The check run output with the override noted above the verdict. */
+export function withOverrideNote(output: CheckRunOutput, override: Override): CheckRunOutput {
+  return {
+    ...output,
+    title: `Overridden by @${override.actor}`,
+    summary: `> ✅ **Overridden by @${override.actor}:** ${override.reason}\n\n${output.summary}`,
+  };
+}
+
+/**
+ * Re-conclude the latest check run named `name` on the head commit as a success,
+ * keeping its verdict under the override note. Returns false when there is no run
+ * to override.
+ */
+export async function overrideCheckRun(
+  octokit: OverridesClient,
+  ref: CheckRunRef,
+  name: string,
+  override: Override
+): Promise<boolean> {
+  const { data } = await octokit.rest.checks.listForRef({
+    owner: ref.owner,
+    repo: ref.repo,
+    ref: ref.head_sha,
+    check_name: name,
+  });
+  // Comment and label events add runs in check suites of their own; the newest is current
+  const latest = data.check_runs.reduce<ListedCheckRun | undefined>(
+    (newest, run) => (newest && newest.id > run.id ? newest : run),
+    undefined
+  );
+  if (!latest) {
+    return false;
+  }
+
+  const output = withOverrideNote(
+    {
+      title: latest.output.title ?? name,
+      summary: latest.output.summary ?? '',
+      ...(latest.output.text ? { text: latest.output.text } : {}),
+    },
+    override
+  );
+  await octokit.rest.checks.update({
+    owner: ref.owner,
+    repo: ref.repo,
+    check_run_id: latest.id,
+    conclusion: 'success',
+    output,
+  });
+  return true;
+}
+
+/**
+ * Take back the feedback an overridden verdict left on the PR: resolve the sticky
+ * comment and withdraw the reviews, so those requesting changes stop blocking the merge
+ * and the inline comments stop arguing with the override.
+ */
+export async function withdrawFeedback(
+  octokit: CommentsClient & ReviewsClient,
+  pullRequest: PullRequestRef,
+  botLogin: string,
+  override: Override,
+  resolvedComment: ResolvedCommentAction,
+  commitSha: string
+): Promise<{ comment: 'updated' | 'deleted' | 'none'; dismissed: number }> {
+  const { pull_number, ...repository } = pullRequest;
+  const issue = { ...repository, issue_number: pull_number };
+  const comment = await resolveStickyComment(
+    octokit,
+    issue,
+    botLogin,
+    resolvedComment,
+    commitSha,
+    undefined,
+    override
+  );
+  const dismissed = await dismissReviews(
+    octokit,
+    pullRequest,
+    botLogin,
+    `@${override.actor} overrode the Only Robots verdict: ${override.reason}`
+  );
+  return { comment, dismissed };
+}
@@ -0,0 +1,144 @@
+import { type DiffHunk, type DiffLine, formatHunk, parsePatch } from './diff';
+import { CHARS_PER_TOKEN, countChangedLines, estimateTokens } from './pr-packing';
+
+export interface PatchWindow {
+  patch: string;
+  /** Lines added in this window; used to weight its verdict. */
+  addedLines: number;
+  /** Position of the window within the whole patch (0-based). */
+  index: number;
+}
+
+/**
+ * Split a patch into windows of whole hunks, each under `maxTokens`. A hunk that is
+ * too large on its own is cut at line boundaries into pieces with their own `@@`
+ * header, so line numbers stay right, and single lines longer than a window
+ * (minified code) are truncated.
+ */
+export function chunkPatch(patch: string, maxTokens: number): PatchWindow[] {
+  const hunks = parsePatch(patch);
+  const pieces =
+    hunks.length > 0 ? hunks.flatMap((hunk) => splitOversizedHunk(hunk, maxTokens)) : [patch];
+
+  const windows: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const candidate = current ? `${current}\n${piece}` : piece;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      windows.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) {
+    windows.push(current);
+  }
+
+  return windows.map((windowPatch, index) => ({
+    patch: windowPatch,
+    addedLines: countChangedLines(windowPatch).additions,
+    index,
+  }));
+}
+
+/**
+ * Pick at most `maxWindows` windows spread evenly across the patch, always keeping
+ * the first and last, so a sample still reflects the whole file.
+ */
+export function sampleWindows(windows: PatchWindow[], maxWindows: number): PatchWindow[] {
+  if (windows.length <= maxWindows) {
+    return windows;
+  }
+  if (maxWindows === 1) {
+    return [windows[0]];
+  }
+
+  const step = (windows.length - 1) / (maxWindows - 1);
+  const picked = new Set<number>();
+  for (let i = 0; i < maxWindows; i++) {
+    picked.add(Math.round(i * step));
+  }
+  return windows.filter((window) => picked.has(window.index));
+}
+
+function splitOversizedHunk(hunk: DiffHunk, maxTokens: number): string[] {
+  const text = formatHunk(hunk);
+  if (estimateTokens(text) <= maxTokens) {
+    return [text];
+  }
+
+  // Leave room for the piece's own header, which is never longer than the original's
+  // by more than a few digits
+  const headerChars = hunk.header.length + 8;
+  const maxChars = maxTokens * CHARS_PER_TOKEN - headerChars;
+  // Each piece remembers where in the hunk it starts, since truncated lines no longer
+  // match the hunk's own copies
+  const pieces: Array<{ start: number; lines: DiffLine[] }> = [];
+  let current: DiffLine[] = [];
+  let currentStart = 0;
+  let currentChars = 0;
+  for (const [index, rawLine] of hunk.lines.entries()) {
+    const line =
+      rawLine.content.length + 2 > maxChars
+        ? {
+            ...rawLine,
+            content: `${rawLine.content.slice(0, Math.max(0, maxChars - 30))} ... (line truncated)`,
+          }
+        : rawLine;
+    const lineChars = line.content.length + 2;
+    if (currentChars + lineChars > maxChars && current.length > 0) {
+      pieces.push({ start: currentStart, lines: current });
+      current = [];
+      currentStart = index;
+      currentChars = 0;
+    }
+    current.push(line);
+    currentChars += lineChars;
+  }
+  if (current.length > 0) {
+    pieces.push({ start: currentStart, lines: current });
+  }
+
+  return pieces.map(({ start, lines }) => formatHunk(subHunk(hunk, start, lines)));
+}
+
+/** A slice of a hunk starting at `start`, with a header that matches the lines it keeps. */
+function subHunk(hunk: DiffHunk, start: number, lines: DiffLine[]): DiffHunk {
+  if (!hunk.header) {
+    return { ...hunk, lines };
+  }
+
+  const first = lines[0];
+  const oldLines = lines.filter((line) => line.type !== 'added').length;
+  const newLines = lines.filter((line) => line.type !== 'removed').length;
+  // Position in the other file of a line that only exists in one of them
+  const oldStart = first.oldLine ?? firstLineNumber(hunk, start, lines, 'oldLine', hunk.oldStart);
+  const newStart = first.newLine ?? firstLineNumber(hunk, start, lines, 'newLine', hunk.newStart);
+
+  return {
+    ...hunk,
+    header: `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@${hunk.section ? ` ${hunk.section}` : ''}`,
+    oldStart,
+    oldLines,
+    newStart,
+    newLines,
+    lines,
+  };
+}
+
+function firstLineNumber(
+  hunk: DiffHunk,
+  start: number,
+  lines: DiffLine[],
+  side: 'oldLine' | 'newLine',
+  fallback: number
+): number {
+  const numbered = lines.find((line) => line[side] !== undefined);
+  if (numbered) {
+    return numbered[side] as number;
+  }
+  // No line of this side in the slice: it sits right after the last one before it
+  const before = hunk.lines.slice(0, start).filter((line) => line[side]);
+  return before.length > 0 ? (before[before.length - 1][side] as number) + 1 : fallback;
+}
@@ -0,0 +1,68 @@
+import { type EvidenceDirection, isValidJudgment, type LLMEvaluationResult } from './llm-evaluator';
+
+/**
+ * What the action holds a PR to. `robots-only` flags human-written code and
+ * `humans-only` AI-generated code; `require-attribution` flags PRs without an AI
+ * trailer or signature, decided without an LLM; `report-only` flags nothing.
+ */
+export const POLICIES = [
+  'robots-only',
+  'humans-only',
+  'require-attribution',
+  'report-only',
+] as const;
+export type Policy = (typeof POLICIES)[number];
+
+export const DEFAULT_POLICY: Policy = 'robots-only';
+
+/** How a valid verdict concludes the check run and sets the `result` output. */
+export interface PolicyOutcome {
+  violated: boolean;
+  conclusion: 'success' | 'failure' | 'neutral';
+  result: 'passed' | 'failed' | 'reported';
+}
+
+export function isPolicy(value: string): value is Policy {
+  return (POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * The authorship that gets files flagged, annotated and reported to code scanning.
+ * Under `require-attribution` the verdict is about the PR as a whole, so no file is.
+ */
+export function flaggedDirection(policy: Policy): EvidenceDirection | undefined {
+  switch (policy) {
+    case 'robots-only':
+      return 'human';
+    case 'humans-only':
+      return 'ai';
+    default:
+      return undefined;
+  }
+}
+
+/** Whether a file's valid verdict is the authorship the policy flags. */
+export function isFlagged(result: LLMEvaluationResult, policy: Policy): boolean {
+  const flagged = flaggedDirection(policy);
+  return (
+    flagged !== undefined &&
+    isValidJudgment(result) &&
+    (result.isHumanLike ? 'human' : 'ai') === flagged
+  );
+}
+
+/**
+ * The outcome of a valid overall verdict. A `require-attribution` verdict is human
+ * when no attribution was found, so it is violated the way `robots-only` is.
+ */
+export function applyPolicy(policy: Policy, overallResult: LLMEvaluationResult): PolicyOutcome {
+  if (policy === 'report-only') {
+    return { violated: false, conclusion: 'neutral', result: 'reported' };
+  }
+
+  const violated =
+    policy === 'humans-only' ? !overallResult.isHumanLike : overallResult.isHumanLike;
+  return violated
+    ? { violated, conclusion: 'failure', result: 'failed' }
+    : { violated, conclusion: 'success', result: 'passed' };
+}
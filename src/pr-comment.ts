@@ -0,0 +1,224 @@
+import type { FileAnalysis, LLMEvaluationResult } from './llm-evaluator';
+import type { Override } from './override';
+import { DEFAULT_POLICY, type Policy } from './policy';
+import { paginate } from './pull-request-changes';
+import {
+  buildTemplateValues,
+  builtInTemplates,
+  renderTemplate,
+  type TemplateSet,
+} from './templates';
+
+// Hidden in the comment body so later runs find and edit it instead of adding another
+export const COMMENT_MARKER = '<!-- onlyrobots-comment -->';
+const HISTORY_MARKER = '<!-- onlyrobots-history -->';
+const ENTRY_MARKER = '<!-- onlyrobots-entry -->';
+const RESOLVED_MARKER = '<!-- onlyrobots-resolved -->';
+
+// Earlier verdicts kept in the collapsed history; GitHub caps comments at 65,536 chars
+const MAX_HISTORY_ENTRIES = 5;
+const MAX_COMMENT_LENGTH = 60_000;
+
+// What the run that resolves the comment found, after "The latest run (commit abc1234)"
+const RESOLVED_NOTES: Record<Policy, string> = {
+  'robots-only': 'found no human-written code. Thanks for letting the robots take over! 🤖',
+  'humans-only': 'found no AI-generated code.',
+  'require-attribution': 'found an AI attribution.',
+  'report-only': 'no longer enforces a verdict.',
+};
+
+// Who GITHUB_TOKEN comments as; its installation token can't look itself up
+export const DEFAULT_BOT_LOGIN = 'github-actions[bot]';
+
+/** What happens to the sticky comment once the PR passes. */
+export const RESOLVED_COMMENT_ACTIONS = ['update', 'delete'] as const;
+export type ResolvedCommentAction = (typeof RESOLVED_COMMENT_ACTIONS)[number];
+
+export type IssueRef = {
+  owner: string;
+  repo: string;
+  issue_number: number;
+};
+
+/** The slice of the Octokit API used for comments. */
+export interface CommentsClient {
+  rest: {
+    issues: {
+      listComments(params: IssueRef & { per_page: number; page: number }): Promise<{
+        data: Array<{ id: number; body?: string | null; user: { login: string } | null }>;
+      }>;
+      createComment(params: IssueRef & { body: string }): Promise<unknown>;
+      updateComment(params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        body: string;
+      }): Promise<unknown>;
+      deleteComment(params: { owner: string; repo: string; comment_id: number }): Promise<unknown>;
+    };
+  };
+}
+
+/** The slice of the Octokit API used to tell which account the token acts as. */
+export interface UsersClient {
+  rest: {
+    users: {
+      getAuthenticated(): Promise<{ data: { login: string } }>;
+    };
+  };
+}
+
+export function isResolvedCommentAction(value: string): value is ResolvedCommentAction {
+  return (RESOLVED_COMMENT_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * The login the token comments and reviews as, so only this action's own comments and
+ * reviews are edited. Installation tokens can't look themselves up, so those fall back
+ * to `github-actions[bot]`.
+ */
+export async function fetchBotLogin(octokit: UsersClient): Promise<string> {
+  try {
+    const { data } = await octokit.rest.users.getAuthenticated();
+    return data.login;
+  } catch {
+    return DEFAULT_BOT_LOGIN;
+  }
+}
+
+/**
+ * Post the latest verdict in this action's comment on the PR, creating it on the first
+ * run and editing it afterwards. The verdict it replaces moves into a collapsed history.
+ */
+export async function upsertStickyComment(
+  octokit: CommentsClient,
+  issue: IssueRef,
+  botLogin: string,
+  body: string,
+  commitSha: string
+): Promise<'created' | 'updated'> {
+  const existing = await findStickyComment(octokit, issue, botLogin);
+  const latest = `${body}\n\n_Latest run: commit ${commitSha.slice(0, 7)}_`;
+
+  if (!existing) {
+    await octokit.rest.issues.createComment({ ...issue, body: renderStickyComment(latest, []) });
+    return 'created';
+  }
+
+  const { current, history } = parseStickyComment(existing.body);
+  await octokit.rest.issues.updateComment({
+    owner: issue.owner,
+    repo: issue.repo,
+    comment_id: existing.id,
+    body: renderStickyComment(latest, [current, ...history]),
+  });
+  return 'updated';
+}
+
+/**
+ * Once the PR passes or a maintainer overrides its verdict, mark this action's comment
+ * as resolved (keeping the history) or delete it. Does nothing when there is no
+ * comment or it is already resolved.
+ */
+export async function resolveStickyComment(
+  octokit: CommentsClient,
+  issue: IssueRef,
+  botLogin: string,
+  action: ResolvedCommentAction,
+  commitSha: string,
+  policy: Policy = DEFAULT_POLICY,
+  override?: Override
+): Promise<'updated' | 'deleted' | 'none'> {
+  const existing = await findStickyComment(octokit, issue, botLogin);
+  if (!existing) {
+    return 'none';
+  }
+
+  const { current, history } = parseStickyComment(existing.body);
+  if (action === 'update' && current.includes(RESOLVED_MARKER)) {
+    return 'none';
+  }
+
+  if (action === 'delete') {
+    await octokit.rest.issues.deleteComment({
+      owner: issue.owner,
+      repo: issue.repo,
+      comment_id: existing.id,
+    });
+    return 'deleted';
+  }
+
+  const commit = `commit ${commitSha.slice(0, 7)}`;
+  const resolved = override
+    ? `${RESOLVED_MARKER}\n## ✅ Resolved — overridden\n\n@${override.actor} overrode the verdict on ${commit}: ${override.reason}`
+    : `${RESOLVED_MARKER}\n## ✅ Resolved — now passing\n\nThe latest run (${commit}) ${RESOLVED_NOTES[policy]}`;
+  await octokit.rest.issues.updateComment({
+    owner: issue.owner,
+    repo: issue.repo,
+    comment_id: existing.id,
+    body: renderStickyComment(resolved, [current, ...history]),
+  });
+  return 'updated';
+}
+
+export function renderStickyComment(current: string, history: string[]): string {
+  let body = `${COMMENT_MARKER}\n${current}`;
+  const kept = history.slice(0, MAX_HISTORY_ENTRIES);
+  if (kept.length > 0) {
+    body += `\n\n${HISTORY_MARKER}\n<details>\n<summary>Earlier runs (${kept.length})</summary>\n\n`;
+    body += kept.map((entry) => `${ENTRY_MARKER}\n${entry}`).join('\n\n---\n\n');
+    body += '\n\n</details>';
+  }
+  return body.length > MAX_COMMENT_LENGTH && kept.length > 0
+    ? renderStickyComment(current, kept.slice(0, -1))
+    : body;
+}
+
+export function parseStickyComment(body: string): { current: string; history: string[] } {
+  const withoutMarker = body.replace(COMMENT_MARKER, '').trim();
+  const historyStart = withoutMarker.indexOf(HISTORY_MARKER);
+  if (historyStart === -1) {
+    return { current: withoutMarker, history: [] };
+  }
+
+  const history = withoutMarker
+    .slice(historyStart)
+    .split(ENTRY_MARKER)
+    .slice(1)
+    .map((entry) =>
+      entry
+        .replace(/\n\n---\n*$/, '')
+        .replace(/\n*<\/details>\s*$/, '')
+        .trim()
+    );
+  return { current: withoutMarker.slice(0, historyStart).trim(), history };
+}
+
+// Only comments by the bot count; anyone else can paste the marker into theirs
+async function findStickyComment(
+  octokit: CommentsClient,
+  issue: IssueRef,
+  botLogin: string
+): Promise<{ id: number; body: string } | undefined> {
+  const comments = await paginate(async (page) => {
+    const { data } = await octokit.rest.issues.listComments({ ...issue, per_page: 100, page });
+    return data;
+  });
+  const comment = comments.find(
+    (c) => c.user?.login === botLogin && c.body?.includes(COMMENT_MARKER)
+  );
+  return comment ? { id: comment.id, body: comment.body ?? '' } : undefined;
+}
+
+export function buildHumanDetectionComment(
+  overallResult: LLMEvaluationResult,
+  fileResults: FileAnalysis[],
+  templates: TemplateSet = builtInTemplates('playful'),
+  policy: Policy = DEFAULT_POLICY
+): string {
+  const values = buildTemplateValues(overallResult, fileResults, {
+    fileCount: fileResults.length,
+    policy,
+  });
+  return renderTemplate(templates.comment, values);
+}
@@ -0,0 +1,110 @@
+import { countLines, parsePatch } from './diff';
+import type { FileToEvaluate } from './llm-evaluator';
+
+// Rough chars-per-token ratio for code; good enough for budgeting, not billing
+export const CHARS_PER_TOKEN = 4;
+
+// Prompt scaffolding around each full patch (path attribute, fences, tags)
+const FILE_OVERHEAD_TOKENS = 20;
+
+const LOW_INFORMATION_PATTERNS = [
+  /(^|\/)(package-lock\.json|pnpm-lock\.yaml|yarn\.lock|Cargo\.lock|Gemfile\.lock|poetry\.lock|go\.sum)$/,
+  /\.min\.(js|css)$/,
+  /(^|\/)(dist|build|vendor)\//,
+  /\.snap$/,
+];
+
+export interface SummarizedFile {
+  filename: string;
+  additions: number;
+  deletions: number;
+  reason: string;
+}
+
+export interface PackedPullRequest {
+  /** Files whose full patch fits in the budget. */
+  included: FileToEvaluate[];
+  /** Files represented only by a one-line summary. */
+  summarized: SummarizedFile[];
+  /** Files left out entirely because not even their summary fit. */
+  dropped: SummarizedFile[];
+  estimatedTokens: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function countChangedLines(patch: string): { additions: number; deletions: number } {
+  return countLines(parsePatch(patch));
+}
+
+export function formatFileSummary(file: SummarizedFile): string {
+  return `- ${file.filename} (+${file.additions}/-${file.deletions}, ${file.reason})`;
+}
+
+/**
+ * Fit a PR's patches into a token budget for single-call judging. Every file starts
+ * as a one-line summary; full patches are then swapped in, most informative and
+ * smallest first, while the budget allows. If even the summaries don't fit, the
+ * least informative and largest files are dropped.
+ */
+export function packPullRequest(files: FileToEvaluate[], budgetTokens: number): PackedPullRequest {
+  const candidates = files
+    .map((file) => {
+      const { additions, deletions } = countChangedLines(file.patch);
+      const lowInformation = isLowInformation(file.filename, additions);
+      const summary: SummarizedFile = {
+        filename: file.filename,
+        additions,
+        deletions,
+        reason: lowInformation ? 'low information' : 'exceeds token budget',
+      };
+      return {
+        file,
+        summary,
+        lowInformation,
+        fullTokens:
+          estimateTokens(file.patch) + estimateTokens(file.filename) + FILE_OVERHEAD_TOKENS,
+        summaryTokens: estimateTokens(formatFileSummary(summary)),
+      };
+    })
+    .sort(
+      (a, b) => Number(a.lowInformation) - Number(b.lowInformation) || a.fullTokens - b.fullTokens
+    );
+
+  let remaining = budgetTokens - candidates.reduce((sum, c) => sum + c.summaryTokens, 0);
+
+  // Not even every summary fits: shed files from the least useful end
+  const dropped: SummarizedFile[] = [];
+  while (remaining < 0 && candidates.length > 0) {
+    const candidate = candidates.pop();
+    if (!candidate) break;
+    remaining += candidate.summaryTokens;
+    dropped.push({ ...candidate.summary, reason: 'dropped to fit token budget' });
+  }
+
+  const included: FileToEvaluate[] = [];
+  const summarized: SummarizedFile[] = [];
+  for (const candidate of candidates) {
+    const upgradeCost = candidate.fullTokens - candidate.summaryTokens;
+    if (upgradeCost <= remaining) {
+      included.push(candidate.file);
+      remaining -= upgradeCost;
+    } else {
+      summarized.push(candidate.summary);
+    }
+  }
+
+  return {
+    included,
+    summarized,
+    dropped,
+    estimatedTokens: budgetTokens - remaining,
+  };
+}
+
+function isLowInformation(filename: string, additions: number): boolean {
+  // Pure deletions say nothing about how new code was written
+  return additions === 0 || LOW_INFORMATION_PATTERNS.some((pattern) => pattern.test(filename));
+}
@@ -0,0 +1,232 @@
+import { getAddedLines, parsePatch } from './diff';
+import type { FileAnalysis, LLMEvaluationResult } from './llm-evaluator';
+import { DEFAULT_POLICY, flaggedDirection, isFlagged, type Policy } from './policy';
+import { paginate } from './pull-request-changes';
+import {
+  buildTemplateValues,
+  builtInTemplates,
+  renderTemplate,
+  type TemplateSet,
+} from './templates';
+
+/**
+ * How a verdict the policy flags is reported on the PR: `comment` posts one issue comment,
+ * `review` a pull request review with inline comments, and `none` nothing.
+ */
+export const FEEDBACK_MODES = ['comment', 'review', 'none'] as const;
+export type FeedbackMode = (typeof FEEDBACK_MODES)[number];
+
+// Hidden in the review body so later runs can find the reviews they posted
+export const REVIEW_MARKER = '<!-- onlyrobots-review -->';
+
+// A review with more inline comments than this is noise rather than feedback
+const MAX_REVIEW_COMMENTS = 30;
+
+export type ReviewEvent = 'REQUEST_CHANGES' | 'COMMENT';
+
+export interface ReviewComment {
+  path: string;
+  /** Last line of the commented range in the new file. */
+  line: number;
+  /** First line, for comments spanning several lines of one hunk. */
+  start_line?: number;
+  side: 'RIGHT';
+  start_side?: 'RIGHT';
+  body: string;
+}
+
+export type PullRequestRef = {
+  owner: string;
+  repo: string;
+  pull_number: number;
+};
+
+/** The slice of the Octokit API used for reviews. */
+export interface ReviewsClient {
+  rest: {
+    pulls: {
+      createReview(
+        params: PullRequestRef & {
+          commit_id: string;
+          event: ReviewEvent;
+          body: string;
+          comments: ReviewComment[];
+        }
+      ): Promise<unknown>;
+      listReviews(params: PullRequestRef & { per_page: number; page: number }): Promise<{
+        data: Array<{
+          id: number;
+          state: string;
+          body: string | null;
+          user: { login: string } | null;
+        }>;
+      }>;
+      dismissReview(
+        params: PullRequestRef & { review_id: number; message: string }
+      ): Promise<unknown>;
+      updateReview(params: PullRequestRef & { review_id: number; body: string }): Promise<unknown>;
+      listCommentsForReview(
+        params: PullRequestRef & { review_id: number; per_page: number; page: number }
+      ): Promise<{ data: Array<{ id: number }> }>;
+      deleteReviewComment(params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+      }): Promise<unknown>;
+    };
+  };
+}
+
+export function isFeedbackMode(value: string): value is FeedbackMode {
+  return (FEEDBACK_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Inline comments for the files the policy flags: one per evidence span pointing the
+ * same way, or one on the first added line when the verdict cited no lines. Ranges
+ * are only kept as ranges when they fall inside a single hunk, since GitHub rejects
+ * others.
+ */
+export function buildReviewComments(
+  fileResults: FileAnalysis[],
+  policy: Policy = DEFAULT_POLICY
+): ReviewComment[] {
+  const comments: ReviewComment[] = [];
+  const flagged = flaggedDirection(policy);
+  const authorship = flagged === 'ai' ? 'AI-generated' : 'human-written';
+
+  for (const file of fileResults) {
+    if (!isFlagged(file.result, policy)) {
+      continue;
+    }
+
+    const hunks = parsePatch(file.patch);
+    const evidence = (file.result.evidence ?? []).filter((item) => item.direction === flagged);
+    for (const item of evidence) {
+      const hunk = hunks.find((h) => h.lines.some((line) => line.newLine === item.endLine));
+      if (!hunk) {
+        continue;
+      }
+      const spansHunk = hunk.lines.some((line) => line.newLine === item.startLine);
+      comments.push({
+        path: file.filename,
+        line: item.endLine,
+        ...(spansHunk && item.startLine < item.endLine
+          ? { start_line: item.startLine, start_side: 'RIGHT' as const }
+          : {}),
+        side: 'RIGHT',
+        body: `🔍 **${item.indicator}**: this looks ${authorship}.`,
+      });
+    }
+
+    const firstAdded = getAddedLines(hunks)[0]?.newLine;
+    if (evidence.length === 0 && firstAdded !== undefined) {
+      comments.push({
+        path: file.filename,
+        line: firstAdded,
+        side: 'RIGHT',
+        body: `🔍 This file looks ${authorship} (${file.result.confidence.toFixed(1)}% confidence): ${file.result.reasoning}`,
+      });
+    }
+  }
+
+  return comments;
+}
+
+export function buildReviewBody(
+  overallResult: LLMEvaluationResult,
+  fileResults: FileAnalysis[],
+  omitted = 0,
+  templates: TemplateSet = builtInTemplates('playful'),
+  policy: Policy = DEFAULT_POLICY
+): string {
+  const values = buildTemplateValues(overallResult, fileResults, {
+    fileCount: fileResults.length,
+    omittedCount: omitted,
+    policy,
+  });
+  return `${REVIEW_MARKER}\n${renderTemplate(templates.review, values)}`;
+}
+
+/**
+ * Post a review on the flagged lines, first withdrawing the reviews of earlier runs so
+ * only the latest verdict holds up the PR and its inline comments don't pile up.
+ */
+export async function postReview(
+  octokit: ReviewsClient,
+  pullRequest: PullRequestRef,
+  botLogin: string,
+  commitId: string,
+  overallResult: LLMEvaluationResult,
+  fileResults: FileAnalysis[],
+  event: ReviewEvent,
+  templates: TemplateSet = builtInTemplates('playful'),
+  policy: Policy = DEFAULT_POLICY
+): Promise<void> {
+  await dismissReviews(octokit, pullRequest, botLogin, 'Superseded by a newer Only Robots run.');
+
+  const comments = buildReviewComments(fileResults, policy);
+  await octokit.rest.pulls.createReview({
+    ...pullRequest,
+    commit_id: commitId,
+    event,
+    body: buildReviewBody(
+      overallResult,
+      fileResults,
+      Math.max(0, comments.length - MAX_REVIEW_COMMENTS),
+      templates,
+      policy
+    ),
+    comments: comments.slice(0, MAX_REVIEW_COMMENTS),
+  });
+}
+
+/**
+ * Withdraw this action's earlier reviews, i.e. those `botLogin` posted with the marker.
+ * Reviews requesting changes are dismissed. Plain comment reviews can't be, so their
+ * inline comments are deleted and their body is replaced with `message`, which also
+ * drops the marker. Returns how many were withdrawn.
+ */
+export async function dismissReviews(
+  octokit: ReviewsClient,
+  pullRequest: PullRequestRef,
+  botLogin: string,
+  message: string
+): Promise<number> {
+  const reviews = await paginate(async (page) => {
+    const { data } = await octokit.rest.pulls.listReviews({ ...pullRequest, per_page: 100, page });
+    return data;
+  });
+  const ours = reviews.filter(
+    (review) =>
+      (review.state === 'CHANGES_REQUESTED' || review.state === 'COMMENTED') &&
+      review.user?.login === botLogin &&
+      review.body?.includes(REVIEW_MARKER)
+  );
+
+  for (const review of ours) {
+    if (review.state === 'CHANGES_REQUESTED') {
+      await octokit.rest.pulls.dismissReview({ ...pullRequest, review_id: review.id, message });
+      continue;
+    }
+
+    const comments = await paginate(async (page) => {
+      const { data } = await octokit.rest.pulls.listCommentsForReview({
+        ...pullRequest,
+        review_id: review.id,
+        per_page: 100,
+        page,
+      });
+      return data;
+    });
+    for (const comment of comments) {
+      await octokit.rest.pulls.deleteReviewComment({
+        owner: pullRequest.owner,
+        repo: pullRequest.repo,
+        comment_id: comment.id,
+      });
+    }
+    await octokit.rest.pulls.updateReview({ ...pullRequest, review_id: review.id, body: message });
+  }
+  return ours.length;
+}
@@ -0,0 +1,139 @@
+import type { PullRequestRef } from './pr-review';
+
+// The pull request endpoints stop listing past these, however many pages are asked for.
+// Comparisons list every commit but at most 300 files, so only commits have a fallback
+export const MAX_PR_FILES = 3000;
+export const MAX_PR_COMMITS = 250;
+
+const PER_PAGE = 100;
+
+export interface PullRequestFile {
+  filename: string;
+  status: string;
+  patch?: string;
+}
+
+export interface PullRequestCommit {
+  sha: string;
+  commit: { message: string };
+}
+
+/** Base and head commits of the PR, compared when it has more commits than GitHub lists. */
+export interface PullRequestRefs {
+  base: string;
+  head: string;
+}
+
+type CompareParams = {
+  owner: string;
+  repo: string;
+  basehead: string;
+  per_page: number;
+  page: number;
+};
+
+/** The slice of the Octokit API used to list changes. */
+export interface PullsClient {
+  rest: {
+    pulls: {
+      listFiles(
+        params: PullRequestRef & { per_page: number; page: number }
+      ): Promise<{ data: PullRequestFile[] }>;
+      listCommits(
+        params: PullRequestRef & { per_page: number; page: number }
+      ): Promise<{ data: PullRequestCommit[] }>;
+    };
+    repos: {
+      compareCommitsWithBasehead(params: CompareParams): Promise<{
+        data: { commits: PullRequestCommit[]; total_commits: number };
+      }>;
+    };
+  };
+}
+
+/** Fetch pages until one comes back short or `limit` items are collected. */
+export async function paginate<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  limit = Number.POSITIVE_INFINITY
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; items.length < limit; page++) {
+    const batch = await fetchPage(page);
+    items.push(...batch);
+    if (batch.length < PER_PAGE) {
+      break;
+    }
+  }
+  return items.slice(0, limit);
+}
+
+/**
+ * The files changed by the PR, up to GitHub's 3000-file limit. A PR that reaches it is
+ * warned about and only its first 3000 files are returned.
+ */
+export async function fetchPullRequestFiles(
+  octokit: PullsClient,
+  pullRequest: PullRequestRef,
+  warn: (message: string) => void
+): Promise<PullRequestFile[]> {
+  const files = await paginate(async (page) => {
+    const { data } = await octokit.rest.pulls.listFiles({
+      ...pullRequest,
+      per_page: PER_PAGE,
+      page,
+    });
+    return data;
+  }, MAX_PR_FILES);
+  if (files.length >= MAX_PR_FILES) {
+    warn(
+      `PR #${pullRequest.pull_number} changes at least ${MAX_PR_FILES} files, the most GitHub lists for a pull request; only the first ${MAX_PR_FILES} are evaluated`
+    );
+  }
+  return files;
+}
+
+/**
+ * Every commit of the PR. Past GitHub's 250-commit limit the commits come from
+ * comparing the base and head commits instead, with a warning either way.
+ */
+export async function fetchPullRequestCommits(
+  octokit: PullsClient,
+  pullRequest: PullRequestRef,
+  refs: PullRequestRefs,
+  warn: (message: string) => void
+): Promise<PullRequestCommit[]> {
+  const commits = await paginate(async (page) => {
+    const { data } = await octokit.rest.pulls.listCommits({
+      ...pullRequest,
+      per_page: PER_PAGE,
+      page,
+    });
+    return data;
+  }, MAX_PR_COMMITS);
+  if (commits.length < MAX_PR_COMMITS) {
+    return commits;
+  }
+
+  warn(
+    `PR #${pullRequest.pull_number} has at least ${MAX_PR_COMMITS} commits, the most GitHub lists for a pull request; comparing ${shortSha(refs.base)}...${shortSha(refs.head)} instead`
+  );
+  const compared = await paginate(async (page) => {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner: pullRequest.owner,
+      repo: pullRequest.repo,
+      basehead: `${refs.base}...${refs.head}`,
+      per_page: PER_PAGE,
+      page,
+    });
+    return data.commits;
+  });
+  if (compared.length <= commits.length) {
+    warn(`The comparison didn't return more commits; using the first ${commits.length}`);
+    return commits;
+  }
+  return compared;
+}
+
+function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
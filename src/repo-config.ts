@@ -0,0 +1,370 @@
+import * as fs from 'node:fs/promises';
+import { parse as parseYaml } from 'yaml';
+import type { AuthorRules } from './author-policy';
+import type { CheckRunOutput } from './check-run';
+import { isLanguage, LANGUAGES, type PathFilters } from './file-selection';
+import { globToRegExp } from './glob';
+import { CONFIDENCE_SIGNALS, type ConfidenceSignal } from './llm-evaluator';
+import { isLLMProviderName, LLM_PROVIDERS, type LLMProviderName } from './llm-provider';
+import { isPolicy, POLICIES, type Policy } from './policy';
+import { isTone, TEMPLATE_NAMES, type TemplateSet, TONES, type Tone } from './templates';
+
+/** Read from the PR's base branch, so a PR can't loosen the rules it's judged by. */
+export const REPO_CONFIG_PATH = '.github/onlyrobots.yml';
+
+/** Bumped whenever a setting is renamed, removed or changes meaning. */
+export const REPO_CONFIG_VERSION = 1;
+
+/**
+ * Repository-level settings. Anything set here takes precedence over the matching
+ * action input; anything left out keeps the input or the built-in default.
+ */
+export interface RepoConfig {
+  version: typeof REPO_CONFIG_VERSION;
+  policy?: Policy;
+  paths?: PathFilters;
+  thresholds?: {
+    /** Average confidence a majority of AI-judged files needs to flag the PR as AI. */
+    aiConfidence?: number;
+  };
+  authors?: AuthorRules;
+  templates?: {
+    tone?: Tone;
+    /** Directory of `<name>.md` templates, relative to the workspace. */
+    path?: string;
+    /** Templates given inline; they win over files in `path`. */
+    overrides?: Partial<TemplateSet>;
+  };
+  provider?: {
+    name?: LLMProviderName;
+    model?: string;
+    baseUrl?: string;
+  };
+  /** Replacement confidence adjustments for PR context signals. */
+  signals?: Partial<Record<ConfidenceSignal, number>>;
+}
+
+export type RepoConfigValidation =
+  | { ok: true; value: RepoConfig }
+  | { ok: false; errors: string[] };
+
+export class RepoConfigError extends Error {
+  constructor(
+    readonly source: string,
+    readonly errors: string[]
+  ) {
+    super(`Invalid ${source}: ${errors.join('; ')}`);
+    this.name = 'RepoConfigError';
+  }
+}
+
+export type ContentRef = {
+  owner: string;
+  repo: string;
+  path: string;
+  /** Defaults to the repository's default branch. */
+  ref?: string;
+};
+
+/** The slice of the Octokit API used to read the config. */
+export interface ContentsClient {
+  rest: {
+    repos: {
+      getContent(params: ContentRef): Promise<{ data: unknown }>;
+    };
+  };
+}
+
+type Mapping = Record<string, unknown>;
+
+/**
+ * The config at `path` in the repository as of `ref`, or undefined when there is
+ * none. A file that doesn't parse or validate is a RepoConfigError.
+ */
+export async function fetchRepoConfig(
+  octokit: ContentsClient,
+  ref: Omit<ContentRef, 'path'>,
+  path = REPO_CONFIG_PATH
+): Promise<RepoConfig | undefined> {
+  const text = await fetchRepoFile(octokit, { ...ref, path });
+  return text === undefined ? undefined : parseRepoConfig(text, path);
+}
+
+/** The text of a file in the repository, or undefined when it doesn't exist. */
+export async function fetchRepoFile(
+  octokit: ContentsClient,
+  ref: ContentRef
+): Promise<string | undefined> {
+  let data: unknown;
+  try {
+    ({ data } = await octokit.rest.repos.getContent(ref));
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const file = data as { type?: string; content?: string; encoding?: string };
+  if (Array.isArray(data) || file.type !== 'file' || typeof file.content !== 'string') {
+    throw new Error(`${ref.path} is not a file`);
+  }
+  return file.encoding === 'base64'
+    ? Buffer.from(file.content, 'base64').toString('utf-8')
+    : file.content;
+}
+
+/** Load a config file from disk, for running the CLIs locally. */
+export async function loadRepoConfig(file: string): Promise<RepoConfig> {
+  const text = await fs.readFile(file, 'utf-8').catch(() => {
+    throw new Error(`Config file not found: ${file}`);
+  });
+  return parseRepoConfig(text, file);
+}
+
+export function parseRepoConfig(text: string, source = REPO_CONFIG_PATH): RepoConfig {
+  let value: unknown;
+  try {
+    value = parseYaml(text);
+  } catch (error) {
+    throw new RepoConfigError(source, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const validation = validateRepoConfig(value);
+  if (!validation.ok) {
+    throw new RepoConfigError(source, validation.errors);
+  }
+  return validation.value;
+}
+
+/** Check a parsed config, collecting every problem rather than stopping at the first. */
+export function validateRepoConfig(value: unknown): RepoConfigValidation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ['the config must be a mapping of settings'] };
+  }
+
+  const root = value as Mapping;
+  const errors: string[] = [];
+
+  checkKeys(
+    root,
+    '',
+    ['version', 'policy', 'paths', 'thresholds', 'authors', 'templates', 'provider', 'signals'],
+    errors
+  );
+  if (root.version === undefined) {
+    errors.push(`version is required (the current version is ${REPO_CONFIG_VERSION})`);
+  } else if (root.version !== REPO_CONFIG_VERSION) {
+    errors.push(`version must be ${REPO_CONFIG_VERSION}, got ${JSON.stringify(root.version)}`);
+  }
+
+  const config: RepoConfig = { version: REPO_CONFIG_VERSION };
+
+  const policy = string(root.policy, 'policy', errors);
+  if (policy !== undefined && !isPolicy(policy)) {
+    errors.push(`policy must be one of: ${POLICIES.join(', ')}`);
+  }
+  config.policy = policy !== undefined && isPolicy(policy) ? policy : undefined;
+
+  const paths = mapping(root.paths, 'paths', errors);
+  if (paths) {
+    checkKeys(paths, 'paths.', ['include', 'exclude', 'languages'], errors);
+    const languages = stringList(paths.languages, 'paths.languages', errors);
+    for (const language of languages ?? []) {
+      if (!isLanguage(language)) {
+        errors.push(`paths.languages: "${language}" is not one of: ${LANGUAGES.join(', ')}`);
+      }
+    }
+    config.paths = {
+      include: globList(paths.include, 'paths.include', errors),
+      exclude: globList(paths.exclude, 'paths.exclude', errors),
+      languages: languages?.filter(isLanguage),
+    };
+  }
+
+  const thresholds = mapping(root.thresholds, 'thresholds', errors);
+  if (thresholds) {
+    checkKeys(thresholds, 'thresholds.', ['ai-confidence'], errors);
+    config.thresholds = {
+      aiConfidence: number(thresholds['ai-confidence'], 'thresholds.ai-confidence', 0, 100, errors),
+    };
+  }
+
+  const authors = mapping(root.authors, 'authors', errors);
+  if (authors) {
+    checkKeys(
+      authors,
+      'authors.',
+      ['exempt', 'exempt-bots', 'exempt-teams', 'allowlist', 'ai-agents'],
+      errors
+    );
+    const exemptTeams = stringList(authors['exempt-teams'], 'authors.exempt-teams', errors);
+    for (const team of exemptTeams ?? []) {
+      if (!/^[^/\s]+\/[^/\s]+$/.test(team)) {
+        errors.push(`authors.exempt-teams: "${team}" must be written as org/team-slug`);
+      }
+    }
+    const allowlist = string(authors.allowlist, 'authors.allowlist', errors);
+    if (allowlist !== undefined && allowlist.split('/').length < 3) {
+      errors.push('authors.allowlist must be written as owner/repo/path');
+    }
+    config.authors = {
+      exempt: stringList(authors.exempt, 'authors.exempt', errors),
+      exemptBots: boolean(authors['exempt-bots'], 'authors.exempt-bots', errors),
+      exemptTeams,
+      allowlist,
+      aiAgents: stringList(authors['ai-agents'], 'authors.ai-agents', errors),
+    };
+  }
+
+  const templates = mapping(root.templates, 'templates', errors);
+  if (templates) {
+    checkKeys(templates, 'templates.', ['tone', 'path', ...TEMPLATE_NAMES], errors);
+    const tone = string(templates.tone, 'templates.tone', errors);
+    if (tone !== undefined && !isTone(tone)) {
+      errors.push(`templates.tone must be one of: ${TONES.join(', ')}`);
+    }
+    const overrides: Partial<TemplateSet> = {};
+    for (const name of TEMPLATE_NAMES) {
+      const template = string(templates[name], `templates.${name}`, errors);
+      if (template !== undefined) {
+        overrides[name] = template;
+      }
+    }
+    config.templates = {
+      tone: tone !== undefined && isTone(tone) ? tone : undefined,
+      path: string(templates.path, 'templates.path', errors),
+      overrides,
+    };
+  }
+
+  const provider = mapping(root.provider, 'provider', errors);
+  if (provider) {
+    checkKeys(provider, 'provider.', ['name', 'model', 'base-url'], errors);
+    const name = string(provider.name, 'provider.name', errors);
+    if (name !== undefined && !isLLMProviderName(name)) {
+      errors.push(`provider.name must be one of: ${LLM_PROVIDERS.join(', ')}`);
+    }
+    config.provider = {
+      name: name !== undefined && isLLMProviderName(name) ? name : undefined,
+      model: string(provider.model, 'provider.model', errors),
+      baseUrl: string(provider['base-url'], 'provider.base-url', errors),
+    };
+  }
+
+  const signals = mapping(root.signals, 'signals', errors);
+  if (signals) {
+    checkKeys(signals, 'signals.', CONFIDENCE_SIGNALS, errors);
+    config.signals = {};
+    for (const signal of CONFIDENCE_SIGNALS) {
+      const weight = number(signals[signal], `signals.${signal}`, -100, 100, errors);
+      if (weight !== undefined) {
+        config.signals[signal] = weight;
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: config };
+}
+
+/** Check run output for a config that couldn't be used; the PR is not evaluated. */
+export function renderConfigErrorOutput(error: RepoConfigError): CheckRunOutput {
+  return {
+    title: `Invalid ${error.source}`,
+    summary: [
+      `The repository configuration in \`${error.source}\` could not be used, so this pull request was not evaluated.`,
+      '',
+      ...error.errors.map((problem) => `- ${problem}`),
+      '',
+      'The configuration is read from the base branch; fix it there and re-run the check.',
+    ].join('\n'),
+  };
+}
+
+function mapping(value: unknown, name: string, errors: string[]): Mapping | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${name} must be a mapping`);
+    return undefined;
+  }
+  return value as Mapping;
+}
+
+function checkKeys(
+  section: Mapping,
+  prefix: string,
+  known: readonly string[],
+  errors: string[]
+): void {
+  for (const key of Object.keys(section)) {
+    if (key === 'api-key') {
+      errors.push(`${prefix}${key} is not allowed; pass API keys as action inputs from secrets`);
+    } else if (!known.includes(key)) {
+      errors.push(`${prefix}${key} is not a known setting`);
+    }
+  }
+}
+
+function string(value: unknown, name: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    errors.push(`${name} must be a string`);
+    return undefined;
+  }
+  return value;
+}
+
+function boolean(value: unknown, name: string, errors: string[]): boolean | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'boolean') {
+    errors.push(`${name} must be true or false`);
+    return undefined;
+  }
+  return value;
+}
+
+function number(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+  errors: string[]
+): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+    errors.push(`${name} must be a number between ${min} and ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+function stringList(value: unknown, name: string, errors: string[]): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    errors.push(`${name} must be a list of strings`);
+    return undefined;
+  }
+  return value;
+}
+
+function globList(value: unknown, name: string, errors: string[]): string[] | undefined {
+  const patterns = stringList(value, name, errors);
+  for (const pattern of patterns ?? []) {
+    try {
+      globToRegExp(pattern);
+    } catch {
+      errors.push(`${name}: "${pattern}" is not a valid glob`);
+    }
+  }
+  return patterns;
+}
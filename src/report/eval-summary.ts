@@ -0,0 +1,105 @@
+import type { EvalSummary } from '../eval/runner';
+import { escapeCell } from './job-summary';
+
+// The comment stays readable; the full list is in the results file
+const MAX_LISTED_MISCLASSIFICATIONS = 10;
+const MAX_TITLE_LENGTH = 50;
+
+/** Markdown for an eval run's results, as posted on the PR by the evaluate workflow. */
+export function renderEvalSummary(summary: EvalSummary): string {
+  const accuracy = percent(summary.accuracy);
+  const accuracyEmoji = summary.accuracy >= 0.9 ? '🟢' : summary.accuracy >= 0.8 ? '🟡' : '🔴';
+  const rate = (count: number) => percent(count / summary.totalPRs);
+
+  const sections = [
+    '## 🤖 AI Detection Evaluation Results',
+    `${accuracyEmoji} **Overall Accuracy: ${accuracy}%** (${summary.correct}/${summary.totalPRs} correct)`,
+    [
+      '### 📊 Detection Metrics',
+      '',
+      '| Metric | Count | Rate |',
+      '| --- | --- | --- |',
+      `| ✅ Correct Classifications | ${summary.correct} | ${accuracy}% |`,
+      `| ❌ Incorrect Classifications | ${summary.incorrect} | ${rate(summary.incorrect)}% |`,
+      `| ⚠️ False Positives (Human → AI) | ${summary.falsePositives} | ${rate(summary.falsePositives)}% |`,
+      `| ⚠️ False Negatives (AI → Human) | ${summary.falseNegatives} | ${rate(summary.falseNegatives)}% |`,
+    ].join('\n'),
+    [
+      '### 🎯 Accuracy by Category',
+      '',
+      '| Category | Accuracy | Correct/Total |',
+      '| --- | --- | --- |',
+      ...Object.entries(summary.byTool)
+        .sort((a, b) => b[1].total - a[1].total)
+        .map(([tool, stats]) => {
+          const emoji = stats.accuracy >= 0.9 ? '✅' : stats.accuracy >= 0.7 ? '⚠️' : '❌';
+          return `| ${emoji} ${escapeCell(tool)} | ${percent(stats.accuracy)}% | ${stats.correct}/${stats.total} |`;
+        }),
+    ].join('\n'),
+    [
+      '### 💡 Confidence Analysis',
+      '',
+      `- **Average Confidence**: ${summary.avgConfidence.overall}%`,
+      `- **When Correct**: ${summary.avgConfidence.correct}%`,
+      `- **When Incorrect**: ${summary.avgConfidence.incorrect}%`,
+      '',
+      summary.avgConfidence.incorrect > summary.avgConfidence.correct
+        ? '⚠️ The system is overconfident when making mistakes.'
+        : '✅ The system is appropriately less confident when making mistakes.',
+    ].join('\n'),
+  ];
+
+  if (summary.variants && summary.variants.length > 1) {
+    sections.push(
+      [
+        '### ⚖️ Variant Comparison',
+        '',
+        '| Variant | Accuracy | False Positives | False Negatives |',
+        '| --- | --- | --- | --- |',
+        ...summary.variants.map(
+          (variant) =>
+            `| ${escapeCell(variant.variant ?? 'default')} | ${percent(variant.accuracy)}% | ${variant.falsePositives} | ${variant.falseNegatives} |`
+        ),
+      ].join('\n')
+    );
+  }
+
+  const misclassified = summary.results.filter((result) => !result.correct);
+  if (misclassified.length > 0) {
+    const rows = misclassified.slice(0, MAX_LISTED_MISCLASSIFICATIONS).map((result) => {
+      const title =
+        result.pr.title.length > MAX_TITLE_LENGTH
+          ? `${result.pr.title.substring(0, MAX_TITLE_LENGTH)}...`
+          : result.pr.title;
+      const expected = result.expected.isAI ? `AI (${result.expected.tool || 'unknown'})` : 'Human';
+      return `| [${escapeCell(title)}](${result.pr.url}) | ${escapeCell(expected)} | ${result.actual.isAI ? 'AI' : 'Human'} | ${Math.round(result.actual.confidence)}% |`;
+    });
+    if (misclassified.length > MAX_LISTED_MISCLASSIFICATIONS) {
+      rows.push(`| ... and ${misclassified.length - MAX_LISTED_MISCLASSIFICATIONS} more | | | |`);
+    }
+    sections.push(
+      [
+        '### ❌ Recent Misclassifications',
+        '',
+        '<details>',
+        '<summary>Click to see misclassified PRs</summary>',
+        '',
+        '| PR | Expected | Detected | Confidence |',
+        '| --- | --- | --- | --- |',
+        ...rows,
+        '',
+        '</details>',
+      ].join('\n')
+    );
+  }
+
+  sections.push(
+    `---\n*This evaluation tests the accuracy of our AI detection system against a dataset of ${summary.totalPRs} known AI-generated and human-written PRs.*`
+  );
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function percent(ratio: number): string {
+  return (ratio * 100).toFixed(1);
+}
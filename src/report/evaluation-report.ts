@@ -0,0 +1,117 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import type { SkippedFile } from '../file-selection';
+import {
+  type IndicatorEvidence,
+  isValidJudgment,
+  type JudgmentStatus,
+  type LLMEvaluationResult,
+  type PatchCoverage,
+} from '../llm-evaluator';
+import type { PullRequestRef } from './options';
+
+/** Bumped whenever a field of EvaluationReport is renamed, removed or changes meaning. */
+export const EVALUATION_REPORT_VERSION = 1;
+
+export type Verdict = 'human' | 'ai' | 'inconclusive';
+
+/**
+ * The machine-readable result of a run: what `--format json` prints and `report-path`
+ * writes. New fields may be added without a version bump; consumers should check
+ * `version` before relying on the rest.
+ */
+export interface EvaluationReport {
+  version: typeof EVALUATION_REPORT_VERSION;
+  /** ISO 8601 time the report was built. */
+  generatedAt: string;
+  pullRequest?: PullRequestRef;
+  verdict: Verdict;
+  /** Confidence in the verdict, 0-100. */
+  confidence: number;
+  reasoning: string;
+  indicators: string[];
+  /** PR title, description and commit signals among the indicators. */
+  contextSignals: string[];
+  /** AI tools named in the reasoning or indicators, e.g. `Claude Code`. */
+  detectedTools: string[];
+  humanFilesCount: number;
+  files: FileReport[];
+  /** Changed files that weren't evaluated, with a SkipReason each. */
+  skippedFiles: SkippedFile[];
+}
+
+export interface FileReport {
+  filename: string;
+  verdict: Verdict;
+  confidence: number;
+  reasoning: string;
+  indicators: string[];
+  /** `ok` for valid judgments; see JudgmentStatus for the others. */
+  status: JudgmentStatus;
+  cached: boolean;
+  coverage?: PatchCoverage;
+  evidence: IndicatorEvidence[];
+}
+
+// Matched against reasoning and indicators; Cursor is case-sensitive to skip database cursors
+const KNOWN_AI_TOOLS: Array<[name: string, pattern: RegExp]> = [
+  ['Claude Code', /claude[\s-]?code|noreply@anthropic\.com/i],
+  ['Cursor', /\bCursor\b/],
+  ['GitHub Copilot', /copilot/i],
+  ['ChatGPT', /chatgpt/i],
+  ['Codex', /\bcodex\b/i],
+  ['Windsurf', /windsurf/i],
+  ['Aider', /\baider\b/i],
+  ['Devin', /\bdevin\b/i],
+  ['OpenHands', /openhands/i],
+];
+
+export function verdictOf(result: LLMEvaluationResult): Verdict {
+  if (!isValidJudgment(result)) {
+    return 'inconclusive';
+  }
+  return result.isHumanLike ? 'human' : 'ai';
+}
+
+export function buildEvaluationReport(
+  evaluation: PullRequestEvaluation,
+  options: { pullRequest?: PullRequestRef; generatedAt?: Date; skippedFiles?: SkippedFile[] } = {}
+): EvaluationReport {
+  const { overallResult, fileResults } = evaluation;
+  const files: FileReport[] = fileResults.map(({ filename, result }) => ({
+    filename,
+    verdict: verdictOf(result),
+    confidence: result.confidence,
+    reasoning: result.reasoning,
+    indicators: result.indicators,
+    status: result.status ?? 'ok',
+    cached: result.cached ?? false,
+    ...(result.coverage ? { coverage: result.coverage } : {}),
+    evidence: result.evidence ?? [],
+  }));
+
+  return {
+    version: EVALUATION_REPORT_VERSION,
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    ...(options.pullRequest ? { pullRequest: options.pullRequest } : {}),
+    verdict: verdictOf(overallResult),
+    confidence: overallResult.confidence,
+    reasoning: overallResult.reasoning,
+    indicators: overallResult.indicators,
+    contextSignals: overallResult.contextSignals ?? [],
+    detectedTools: detectTools([overallResult, ...fileResults.map((file) => file.result)]),
+    humanFilesCount: files.filter((file) => file.verdict === 'human').length,
+    files,
+    skippedFiles: options.skippedFiles ?? [],
+  };
+}
+
+function detectTools(results: LLMEvaluationResult[]): string[] {
+  const text = results
+    .flatMap((result) => [
+      result.reasoning,
+      ...result.indicators,
+      ...(result.evidence ?? []).map((item) => item.indicator),
+    ])
+    .join('\n');
+  return KNOWN_AI_TOOLS.filter(([, pattern]) => pattern.test(text)).map(([name]) => name);
+}
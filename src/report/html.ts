@@ -0,0 +1,91 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { formatEvidenceLocation } from '../evidence';
+import {
+  describeCoverage,
+  type FileAnalysis,
+  type IndicatorEvidence,
+  isValidJudgment,
+  type LLMEvaluationResult,
+} from '../llm-evaluator';
+import { describePullRequest, type ReportOptions } from './options';
+import { escapeXml as escapeHtml } from './xml';
+
+// Inlined so the page stays a single file that can be attached as an artifact
+const STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  h1 { font-size: 1.5rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; }
+  pre { background: #f6f8fa; padding: 0.6rem; overflow-x: auto; }
+  .verdict { display: inline-block; padding: 0.1rem 0.5rem; border-radius: 1rem; font-weight: 600; }
+  .human { background: #ffebe9; color: #cf222e; }
+  .ai { background: #dafbe1; color: #1a7f37; }
+  .none { background: #fff8c5; color: #9a6700; }
+`;
+
+/** A self-contained HTML page with the verdict, a table of files and their evidence. */
+export function renderHtml(evaluation: PullRequestEvaluation, options: ReportOptions = {}): string {
+  const { overallResult, fileResults } = evaluation;
+  const pullRequest = describePullRequest(options.pullRequest);
+  const title = pullRequest ? `Only Robots report for ${pullRequest}` : 'Only Robots report';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${verdictBadge(overallResult)} ${overallResult.confidence.toFixed(1)}% confidence</p>
+<p>${escapeHtml(overallResult.reasoning)}</p>
+${list(overallResult.indicators)}
+<h2>Files</h2>
+<table>
+<thead><tr><th>File</th><th>Verdict</th><th>Confidence</th></tr></thead>
+<tbody>
+${fileResults.map(fileRow).join('\n')}
+</tbody>
+</table>
+${fileResults.map(fileSection).join('\n')}
+</body>
+</html>
+`;
+}
+
+function fileRow(file: FileAnalysis): string {
+  return `<tr><td>${escapeHtml(file.filename)}</td><td>${verdictBadge(file.result)}</td><td>${file.result.confidence.toFixed(1)}%</td></tr>`;
+}
+
+function fileSection(file: FileAnalysis): string {
+  const { result } = file;
+  const coverage = result.coverage?.sampled
+    ? `<p>Coverage: ${escapeHtml(describeCoverage(result.coverage))}</p>`
+    : '';
+  return `<h3>${escapeHtml(file.filename)} ${verdictBadge(result)}</h3>
+<p>${escapeHtml(result.reasoning)}</p>
+${coverage}${list(result.indicators)}${(result.evidence ?? []).map(evidenceBlock).join('\n')}`;
+}
+
+function evidenceBlock(item: IndicatorEvidence): string {
+  const direction = item.direction === 'ai' ? 'AI' : 'human';
+  return `<p><code>${escapeHtml(formatEvidenceLocation(item))}</code> (${direction}) ${escapeHtml(item.indicator)}</p>
+<pre><code>${escapeHtml(item.snippet)}</code></pre>`;
+}
+
+function verdictBadge(result: LLMEvaluationResult): string {
+  if (!isValidJudgment(result)) {
+    return '<span class="verdict none">No verdict</span>';
+  }
+  return result.isHumanLike
+    ? '<span class="verdict human">Human</span>'
+    : '<span class="verdict ai">AI</span>';
+}
+
+function list(items: string[]): string {
+  if (items.length === 0) {
+    return '';
+  }
+  return `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>\n`;
+}
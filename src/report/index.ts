@@ -0,0 +1,64 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { renderHtml } from './html';
+import { renderJson } from './json';
+import { renderJUnit } from './junit';
+import { renderMarkdown } from './markdown';
+import type { ReportOptions } from './options';
+import { renderSarif } from './sarif';
+import { renderText } from './text';
+
+export {
+  buildEvaluationReport,
+  EVALUATION_REPORT_VERSION,
+  type EvaluationReport,
+  type FileReport,
+  type Verdict,
+  verdictOf,
+} from './evaluation-report';
+export { renderEvalSummary } from './eval-summary';
+export { renderHtml } from './html';
+export { renderJson } from './json';
+export { type RunStats, renderJobSummary } from './job-summary';
+export { renderJUnit } from './junit';
+export {
+  type CheckRunText,
+  renderCheckRunOutput,
+  renderMarkdown,
+  renderNoFilesOutput,
+} from './markdown';
+export type { PullRequestRef, ReportOptions } from './options';
+export { buildSarif, renderSarif, type SarifLog } from './sarif';
+export { renderText } from './text';
+
+/**
+ * `markdown` is the check run text, `text` the terminal output, `html` a self-contained
+ * page, `junit` a test report with one test case per file and `sarif` findings for
+ * GitHub code scanning.
+ */
+export const REPORT_FORMATS = ['text', 'markdown', 'json', 'html', 'junit', 'sarif'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function renderReport(
+  format: ReportFormat,
+  evaluation: PullRequestEvaluation,
+  options: ReportOptions = {}
+): string {
+  switch (format) {
+    case 'text':
+      return renderText(evaluation, options);
+    case 'markdown':
+      return renderMarkdown(evaluation, options);
+    case 'json':
+      return renderJson(evaluation, options);
+    case 'html':
+      return renderHtml(evaluation, options);
+    case 'junit':
+      return renderJUnit(evaluation, options);
+    case 'sarif':
+      return renderSarif(evaluation, options.policy);
+  }
+}
@@ -0,0 +1,88 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { isHeuristicIndicator } from '../heuristic-evaluator';
+import type { LLMUsage } from '../llm-evaluator';
+import { verdictOf } from './evaluation-report';
+import { renderCheckRunOutput } from './markdown';
+import type { ReportOptions } from './options';
+
+// The table has room for a few indicators per file; the check run lists them all
+const TOP_INDICATORS = 3;
+
+const VERDICT_LABELS = { human: '👤 Human', ai: '🤖 AI', inconclusive: '❔ No verdict' } as const;
+
+export interface RunStats {
+  engine: string;
+  /** `provider:model` of the judge, when an LLM was used. */
+  model?: string;
+  usage?: LLMUsage;
+  durationMs: number;
+}
+
+/**
+ * Markdown for the workflow run's job summary. The verdict section is the check run
+ * summary itself, so the two never disagree; the rest adds a per-file table, the PR
+ * context signals that fired and what the run cost.
+ */
+export function renderJobSummary(
+  evaluation: PullRequestEvaluation,
+  stats: RunStats,
+  options: ReportOptions = {}
+): string {
+  const { overallResult, fileResults } = evaluation;
+  const { title, summary } = renderCheckRunOutput(evaluation, options);
+  const sections = [`## ${title}`, summary];
+
+  if (fileResults.length > 0) {
+    sections.push(
+      [
+        '### Files',
+        '',
+        '| File | Verdict | Confidence | Top indicators |',
+        '| --- | --- | --- | --- |',
+        ...fileResults.map(({ filename, result }) => {
+          const indicators = result.indicators
+            .filter((indicator) => !isHeuristicIndicator(indicator))
+            .slice(0, TOP_INDICATORS)
+            .map((indicator) => `\`${indicator}\``)
+            .join(', ');
+          return `| ${escapeCell(filename)} | ${VERDICT_LABELS[verdictOf(result)]} | ${result.confidence.toFixed(1)}% | ${escapeCell(indicators) || '-'} |`;
+        }),
+      ].join('\n')
+    );
+  }
+
+  const signals = overallResult.contextSignals ?? [];
+  if (signals.length > 0) {
+    sections.push(
+      ['### PR context signals', '', ...signals.map((signal) => `- \`${signal}\``)].join('\n')
+    );
+  }
+
+  const rows: Array<[string, string]> = [['Engine', stats.engine]];
+  if (stats.model) {
+    rows.push(['Model', stats.model]);
+  }
+  if (stats.usage) {
+    rows.push(
+      ['LLM requests', String(stats.usage.requests)],
+      ['Input tokens', stats.usage.inputTokens.toLocaleString('en-US')],
+      ['Output tokens', stats.usage.outputTokens.toLocaleString('en-US')]
+    );
+  }
+  rows.push(['Duration', `${(stats.durationMs / 1000).toFixed(1)}s`]);
+  sections.push(
+    [
+      '### Run',
+      '',
+      '| | |',
+      '| --- | --- |',
+      ...rows.map(([name, value]) => `| ${name} | ${value} |`),
+    ].join('\n')
+  );
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+export function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
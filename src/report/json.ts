@@ -0,0 +1,15 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { buildEvaluationReport } from './evaluation-report';
+import type { ReportOptions } from './options';
+
+/** The versioned EvaluationReport as JSON. */
+export function renderJson(evaluation: PullRequestEvaluation, options: ReportOptions = {}): string {
+  return JSON.stringify(
+    buildEvaluationReport(evaluation, {
+      pullRequest: options.pullRequest,
+      skippedFiles: options.skippedFiles,
+    }),
+    null,
+    2
+  );
+}
@@ -0,0 +1,56 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { formatEvidenceLocation } from '../evidence';
+import { type FileAnalysis, isValidJudgment } from '../llm-evaluator';
+import { DEFAULT_POLICY, flaggedDirection, isFlagged, type Policy } from '../policy';
+import { describePullRequest, type ReportOptions } from './options';
+import { escapeXml } from './xml';
+
+/**
+ * JUnit XML with one test case per file: files the policy flags fail, files without
+ * a valid judgment are skipped, so CI test reporters show the verdicts.
+ */
+export function renderJUnit(
+  evaluation: PullRequestEvaluation,
+  options: ReportOptions = {}
+): string {
+  const { fileResults } = evaluation;
+  const policy = options.policy ?? DEFAULT_POLICY;
+  const failures = fileResults.filter((file) => isFlagged(file.result, policy)).length;
+  const skipped = fileResults.filter((file) => !isValidJudgment(file.result)).length;
+  const pullRequest = describePullRequest(options.pullRequest);
+  const suiteName = pullRequest ? `Only Robots: ${pullRequest}` : 'Only Robots';
+  const counts = `tests="${fileResults.length}" failures="${failures}" skipped="${skipped}"`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Only Robots" ${counts}>`,
+    `  <testsuite name="${escapeXml(suiteName)}" ${counts}>`,
+    ...fileResults.map((file) => renderTestCase(file, policy)),
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function renderTestCase(file: FileAnalysis, policy: Policy): string {
+  const { result } = file;
+  const open = `    <testcase classname="onlyrobots" name="${escapeXml(file.filename)}"`;
+
+  if (!isValidJudgment(result)) {
+    return `${open}>\n      <skipped message="${escapeXml(result.reasoning)}"/>\n    </testcase>`;
+  }
+  if (!isFlagged(result, policy)) {
+    return `${open}/>`;
+  }
+
+  const authorship = flaggedDirection(policy) === 'ai' ? 'AI-generated' : 'human-written';
+  const message = `Looks ${authorship} (${result.confidence.toFixed(1)}% confidence)`;
+  const body = [
+    result.reasoning,
+    ...result.indicators.map((indicator) => `- ${indicator}`),
+    ...(result.evidence ?? []).map(
+      (item) => `${formatEvidenceLocation(item)} (${item.direction}) ${item.indicator}`
+    ),
+  ].join('\n');
+  return `${open}>\n      <failure message="${escapeXml(message)}" type="${authorship.toLowerCase()}">${escapeXml(body)}</failure>\n    </testcase>`;
+}
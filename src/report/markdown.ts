@@ -0,0 +1,65 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import type { SkippedFile } from '../file-selection';
+import {
+  buildTemplateValues,
+  builtInTemplates,
+  formatSkippedFiles,
+  renderTemplate,
+} from '../templates';
+import type { ReportOptions } from './options';
+
+export interface CheckRunText {
+  title: string;
+  summary: string;
+  text: string;
+}
+
+/** Title, summary and text of the check run for a valid verdict or an inconclusive one. */
+export function renderCheckRunOutput(
+  evaluation: PullRequestEvaluation,
+  options: ReportOptions = {}
+): CheckRunText {
+  const { overallResult, fileResults } = evaluation;
+  const templates = options.templates ?? builtInTemplates('playful', options.policy);
+  const values = buildTemplateValues(overallResult, fileResults, {
+    fileCount: options.fileCount ?? fileResults.length,
+    cachedCount: fileResults.filter((file) => file.result.cached).length,
+    skippedFiles: options.skippedFiles,
+    policy: options.policy,
+  });
+
+  if (values.verdict === 'inconclusive') {
+    return {
+      title:
+        overallResult.status === 'errored'
+          ? '⚠️ Evaluation failed, no verdict reached'
+          : '⚠️ Unable to reach a verdict',
+      summary: overallResult.reasoning,
+      text: renderTemplate(templates['details-inconclusive'], values),
+    };
+  }
+
+  return {
+    title: renderTemplate(templates[`title-${values.verdict}`], values),
+    summary: renderTemplate(templates[`summary-${values.verdict}`], values),
+    text: renderTemplate(templates[`details-${values.verdict}`], values),
+  };
+}
+
+/** Title, summary and text of the check run for a PR whose files were all skipped. */
+export function renderNoFilesOutput(skippedFiles: SkippedFile[]): CheckRunText {
+  return {
+    title: 'No code files to evaluate',
+    summary: `All ${skippedFiles.length} changed file(s) were skipped, so there was nothing to judge.`,
+    text: formatSkippedFiles(skippedFiles),
+  };
+}
+
+/** The check run output as one Markdown document. */
+export function renderMarkdown(
+  evaluation: PullRequestEvaluation,
+  options: ReportOptions = {}
+): string {
+  const { title, summary, text } = renderCheckRunOutput(evaluation, options);
+  return `# ${title}\n\n${summary}\n\n${text}\n`;
+}
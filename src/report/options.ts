@@ -0,0 +1,30 @@
+import type { SkippedFile } from '../file-selection';
+import type { Policy } from '../policy';
+import type { TemplateSet } from '../templates';
+
+export interface PullRequestRef {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+export interface ReportOptions {
+  /** Wording of the markdown report; the built-in playful set when left out. */
+  templates?: TemplateSet;
+  /** Files evaluated. Defaults to the number of file results. */
+  fileCount?: number;
+  /** Changed files left out of the evaluation, listed in the check run details. */
+  skippedFiles?: SkippedFile[];
+  /** Decides which files the check run flags; robots-only when left out. */
+  policy?: Policy;
+  /** The PR the report is about, shown in headings where known. */
+  pullRequest?: PullRequestRef;
+  /** Include a section per file in the text report. */
+  verbose?: boolean;
+  /** Include each file's patch in the text report. */
+  showDiffs?: boolean;
+}
+
+export function describePullRequest(pullRequest: PullRequestRef | undefined): string | undefined {
+  return pullRequest && `${pullRequest.owner}/${pullRequest.repo}#${pullRequest.number}`;
+}
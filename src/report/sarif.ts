@@ -0,0 +1,192 @@
+import { getAddedLines, parsePatch } from '../diff';
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { HEURISTIC_INDICATOR_PREFIX, isHeuristicIndicator } from '../heuristic-evaluator';
+import type { FileAnalysis, IndicatorEvidence } from '../llm-evaluator';
+import { DEFAULT_POLICY, flaggedDirection, isFlagged, type Policy } from '../policy';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/getsentry/action-onlyrobots';
+
+// For flagged files whose verdict came without any indicator
+const FALLBACK_RULE_ID = 'human-written-code';
+const AI_FALLBACK_RULE_ID = 'ai-generated-code';
+
+export interface SarifRegion {
+  startLine: number;
+  endLine: number;
+  snippet?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: 'warning';
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: '%SRCROOT%' };
+      region: SarifRegion;
+    };
+  }>;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  helpUri: string;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * SARIF 2.1.0 for GitHub code scanning. Every indicator category becomes a rule; each
+ * file the policy flags gets a result per indicator, located at the lines cited for
+ * it or else at the file's first added line. Policies that flag no files report none.
+ */
+export function buildSarif(
+  evaluation: PullRequestEvaluation,
+  policy: Policy = DEFAULT_POLICY
+): SarifLog {
+  const rules = new Map<string, SarifRule>();
+  const results: SarifResult[] = [];
+  const flagged = flaggedDirection(policy);
+  const authorship = flagged === 'ai' ? 'AI-generated' : 'human-written';
+
+  const addResult = (indicator: string | undefined, filename: string, region: SarifRegion) => {
+    const id = indicator
+      ? ruleIdOf(indicator)
+      : flagged === 'ai'
+        ? AI_FALLBACK_RULE_ID
+        : FALLBACK_RULE_ID;
+    if (!rules.has(id)) {
+      rules.set(id, buildRule(id, indicator, authorship));
+    }
+    results.push({
+      ruleId: id,
+      ruleIndex: [...rules.keys()].indexOf(id),
+      level: 'warning',
+      message: {
+        text: indicator
+          ? `Looks ${authorship}: ${describeIndicator(indicator)}`
+          : `This file looks ${authorship}.`,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: filename, uriBaseId: '%SRCROOT%' },
+            region,
+          },
+        },
+      ],
+    });
+  };
+
+  const overallEvidence = evaluation.overallResult.evidence ?? [];
+  for (const file of evaluation.fileResults) {
+    if (!isFlagged(file.result, policy)) {
+      continue;
+    }
+
+    // In pr mode the lines are cited on the overall verdict rather than the file's
+    const evidence = [
+      ...(file.result.evidence ?? []),
+      ...overallEvidence.filter((item) => item.filename === file.filename),
+    ].filter((item) => item.direction === flagged);
+    const seen = new Set<string>();
+    for (const item of evidence) {
+      const key = `${item.indicator} ${item.startLine}-${item.endLine}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        addResult(item.indicator, file.filename, evidenceRegion(item));
+      }
+    }
+
+    const cited = new Set(evidence.map((item) => item.indicator));
+    const uncited = file.result.indicators.filter((indicator) => !cited.has(indicator));
+    if (uncited.length === 0 && evidence.length === 0) {
+      addResult(undefined, file.filename, firstAddedLine(file));
+    }
+    for (const indicator of uncited) {
+      addResult(indicator, file.filename, firstAddedLine(file));
+    }
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'Only Robots',
+            informationUri: INFORMATION_URI,
+            rules: [...rules.values()],
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
+
+export function renderSarif(
+  evaluation: PullRequestEvaluation,
+  policy: Policy = DEFAULT_POLICY
+): string {
+  return JSON.stringify(buildSarif(evaluation, policy), null, 2);
+}
+
+/** `heuristic/<pattern>` for heuristic patterns, a slug of the wording for LLM indicators. */
+export function ruleIdOf(indicator: string): string {
+  if (isHeuristicIndicator(indicator)) {
+    return `heuristic/${slugify(indicator.slice(HEURISTIC_INDICATOR_PREFIX.length))}`;
+  }
+  return slugify(indicator) || FALLBACK_RULE_ID;
+}
+
+function buildRule(id: string, indicator: string | undefined, authorship: string): SarifRule {
+  const description = indicator
+    ? `${authorship.charAt(0).toUpperCase()}${authorship.slice(1)} code indicator: ${describeIndicator(indicator)}`
+    : `Code judged to be ${authorship}`;
+  return {
+    id,
+    name: id
+      .split(/[/-]/)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(''),
+    shortDescription: { text: description },
+    helpUri: INFORMATION_URI,
+  };
+}
+
+function describeIndicator(indicator: string): string {
+  return isHeuristicIndicator(indicator)
+    ? `heuristic pattern ${indicator.slice(HEURISTIC_INDICATOR_PREFIX.length)}`
+    : indicator;
+}
+
+function evidenceRegion(item: IndicatorEvidence): SarifRegion {
+  return { startLine: item.startLine, endLine: item.endLine, snippet: { text: item.snippet } };
+}
+
+function firstAddedLine(file: FileAnalysis): SarifRegion {
+  const line = getAddedLines(parsePatch(file.patch))[0]?.newLine ?? 1;
+  return { startLine: line, endLine: line };
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64)
+    .replace(/-+$/, '');
+}
@@ -0,0 +1,108 @@
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { formatEvidenceLocation } from '../evidence';
+import { SKIP_REASON_LABELS } from '../file-selection';
+import {
+  describeCoverage,
+  type IndicatorEvidence,
+  isValidJudgment,
+  type LLMEvaluationResult,
+} from '../llm-evaluator';
+import type { ReportOptions } from './options';
+
+/** Terminal output: the overall verdict and, when verbose, a section per file. */
+export function renderText(evaluation: PullRequestEvaluation, options: ReportOptions = {}): string {
+  const { overallResult, fileResults } = evaluation;
+  const lines: string[] = [];
+
+  if (options.pullRequest) {
+    const { owner, repo, number } = options.pullRequest;
+    lines.push('', `🔍 Analyzing PR #${number} from ${owner}/${repo}`);
+  }
+  lines.push('='.repeat(60));
+
+  lines.push(`${emojiOf(overallResult)} Overall Assessment: ${labelOf(overallResult, 'long')}`);
+  lines.push(`📊 Confidence: ${overallResult.confidence.toFixed(1)}%`);
+  lines.push(`💭 Reasoning: ${overallResult.reasoning}`);
+  lines.push(`🏷️  Indicators: ${overallResult.indicators.join(', ')}`);
+
+  // With a single file there is no file-by-file section to show its evidence in
+  if (options.verbose && fileResults.length <= 1) {
+    lines.push(...formatEvidence(overallResult.evidence ?? fileResults[0]?.result.evidence, ''));
+  }
+
+  if (options.verbose && fileResults.length > 1) {
+    lines.push('', '📁 File-by-file Analysis:', '-'.repeat(40));
+
+    fileResults.forEach((file, index) => {
+      const { result } = file;
+      lines.push('', `${index + 1}. ${file.filename}`);
+      lines.push(
+        `   ${emojiOf(result)} ${labelOf(result, 'short')} (${result.confidence.toFixed(1)}%)`
+      );
+      lines.push(`   ${result.reasoning}`);
+      if (result.coverage) {
+        lines.push(`   Coverage: ${describeCoverage(result.coverage)}`);
+      }
+      if (result.indicators.length > 0) {
+        lines.push(`   Indicators: ${result.indicators.join(', ')}`);
+      }
+      lines.push(...formatEvidence(result.evidence, '   '));
+
+      if (options.showDiffs && file.patch) {
+        lines.push('   Diff:', `   ${file.patch.split('\n').join('\n   ')}`);
+      }
+    });
+  }
+
+  const skipped = options.skippedFiles ?? [];
+  if (options.verbose && skipped.length > 0) {
+    lines.push('', '⏭️  Skipped Files:');
+    for (const file of skipped) {
+      lines.push(`   ${file.filename} (${SKIP_REASON_LABELS[file.reason]})`);
+    }
+  }
+
+  lines.push('', '='.repeat(60));
+  if (!isValidJudgment(overallResult)) {
+    lines.push('⚠️  No verdict could be reached for this PR');
+  } else if (overallResult.isHumanLike) {
+    lines.push('✅ This PR appears to be human-written');
+  } else {
+    lines.push('🚨 This PR appears to be AI-generated');
+  }
+
+  return lines.join('\n');
+}
+
+function formatEvidence(evidence: IndicatorEvidence[] | undefined, indent: string): string[] {
+  if (!evidence || evidence.length === 0) {
+    return [];
+  }
+
+  const lines = [`${indent}📌 Evidence:`];
+  for (const item of evidence) {
+    const direction = item.direction === 'ai' ? 'AI' : 'human';
+    lines.push(`${indent}   ${formatEvidenceLocation(item)} (${direction}) ${item.indicator}`);
+    for (const line of item.snippet.split('\n')) {
+      lines.push(`${indent}     | ${line}`);
+    }
+  }
+  return lines;
+}
+
+function emojiOf(result: LLMEvaluationResult): string {
+  if (!isValidJudgment(result)) {
+    return '❔';
+  }
+  return result.isHumanLike ? '👤' : '🤖';
+}
+
+function labelOf(result: LLMEvaluationResult, length: 'short' | 'long'): string {
+  if (!isValidJudgment(result)) {
+    return 'NO VERDICT';
+  }
+  if (length === 'short') {
+    return result.isHumanLike ? 'HUMAN' : 'AI';
+  }
+  return result.isHumanLike ? 'HUMAN-WRITTEN' : 'AI-GENERATED';
+}
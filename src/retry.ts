@@ -0,0 +1,136 @@
+// Retry-After values beyond this are treated as "give up", not "wait"
+const MAX_RETRY_AFTER_MS = 120_000;
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export interface RetryOptions {
+  /** Attempts after the first one; 0 disables retrying. */
+  retries: number;
+  /** Abort each attempt after this long. */
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+/**
+ * Run an operation with a per-attempt timeout, retrying transient failures (429, 5xx,
+ * connection errors, timeouts) with exponential backoff and jitter. A Retry-After
+ * header from the server takes precedence over the computed delay.
+ */
+export async function withRetry<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+  const sleep = options.sleep ?? defaultSleep;
+  const random = options.random ?? Math.random;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runWithTimeout(operation, options.timeoutMs);
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+
+      const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delayMs = retryAfterMs ?? Math.round(backoffMs * (0.5 + random() / 2));
+
+      options.onRetry?.({ attempt: attempt + 1, delayMs, error });
+      await sleep(delayMs);
+    }
+  }
+}
+
+async function runWithTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs?: number
+): Promise<T> {
+  const controller = new AbortController();
+  if (!timeoutMs) {
+    return operation(controller.signal);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  // SDK connection failures have no status code
+  const name = error instanceof Error ? error.name : '';
+  return name === 'APIConnectionError' || name === 'APIConnectionTimeoutError';
+}
+
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown } | undefined)?.headers;
+  const retryAfterMs = readHeader(headers, 'retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  // HTTP-date form
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | undefined)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
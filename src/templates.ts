@@ -0,0 +1,663 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { formatEvidenceLocation } from './evidence';
+import { SKIP_REASON_LABELS, type SkippedFile } from './file-selection';
+import { HEURISTIC_INDICATOR_PREFIX, isHeuristicIndicator } from './heuristic-evaluator';
+import {
+  describeCoverage,
+  type FileAnalysis,
+  type IndicatorEvidence,
+  isValidJudgment,
+  type LLMEvaluationResult,
+} from './llm-evaluator';
+import { DEFAULT_POLICY, isFlagged, type Policy } from './policy';
+
+/** Built-in copy: `playful` is the original robot-themed text, `professional` is neutral. */
+export const TONES = ['playful', 'professional'] as const;
+export type Tone = (typeof TONES)[number];
+
+/**
+ * Every piece of user-facing text that can be customized. A custom template directory
+ * overrides any of them with a `<name>.md` file.
+ */
+export const TEMPLATE_NAMES = [
+  'title-human',
+  'title-ai',
+  'summary-human',
+  'summary-ai',
+  'details-human',
+  'details-ai',
+  'details-inconclusive',
+  'comment',
+  'review',
+] as const;
+export type TemplateName = (typeof TEMPLATE_NAMES)[number];
+export type TemplateSet = Record<TemplateName, string>;
+
+/**
+ * Placeholder values, all pre-rendered Markdown. Empty values make `{{#name}}...{{/name}}`
+ * sections disappear, so templates don't need to know which parts apply.
+ */
+export interface TemplateValues {
+  verdict: 'human' | 'ai' | 'inconclusive';
+  file_count: string;
+  confidence: string;
+  reasoning: string;
+  /** LLM indicators as a bullet list. */
+  indicators: string;
+  /** Patterns matched by the heuristic engine as a bullet list. */
+  heuristic_patterns: string;
+  /** Number of judgments reused from the cache; empty when none were. */
+  cached_count: string;
+  /** A section per file flagged by the policy, with its reasoning and evidence. */
+  flagged_files: string;
+  /** One line per judged file with its AI confidence. */
+  file_summary: string;
+  /** Table of every judged file with its verdict and confidence. */
+  file_table: string;
+  /** Every cited line range with the quoted code. */
+  evidence: string;
+  /** Files without a valid judgment and why. */
+  unjudged_files: string;
+  /** Flagged locations left out of a review; empty when none were. */
+  omitted_count: string;
+  /** Changed files that weren't evaluated and why. */
+  skipped_files: string;
+}
+
+export interface ReportContext {
+  fileCount: number;
+  cachedCount?: number;
+  omittedCount?: number;
+  skippedFiles?: SkippedFile[];
+  /** Decides which files are flagged; robots-only when left out. */
+  policy?: Policy;
+}
+
+// Check run text is capped at 65,535 characters; a huge PR can skip thousands of files
+const MAX_LISTED_SKIPPED_FILES = 100;
+
+export function isTone(value: string): value is Tone {
+  return (TONES as readonly string[]).includes(value);
+}
+
+/** The templates of `tone`, reworded where `policy` flags something else than humans. */
+export function builtInTemplates(tone: Tone, policy: Policy = DEFAULT_POLICY): TemplateSet {
+  const policyTemplates =
+    tone === 'professional' ? PROFESSIONAL_POLICY_TEMPLATES : PLAYFUL_POLICY_TEMPLATES;
+  return {
+    ...(tone === 'professional' ? PROFESSIONAL_TEMPLATES : PLAYFUL_TEMPLATES),
+    ...policyTemplates[policy],
+  };
+}
+
+/**
+ * The templates of `tone` and `policy`, with any `<name>.md` found in `directory` taking
+ * their place. Unknown files are ignored; a missing directory is an error so typos don't
+ * go unnoticed. `overrides`, such as templates inlined in the repository config, win
+ * over both.
+ */
+export async function loadTemplates(
+  tone: Tone,
+  directory?: string,
+  overrides: Partial<TemplateSet> = {},
+  policy: Policy = DEFAULT_POLICY
+): Promise<TemplateSet> {
+  const templates = builtInTemplates(tone, policy);
+  if (!directory) {
+    return { ...templates, ...overrides };
+  }
+
+  const files = await fs.readdir(directory).catch(() => {
+    throw new Error(`Template directory not found: ${directory}`);
+  });
+  for (const name of TEMPLATE_NAMES) {
+    if (files.includes(`${name}.md`)) {
+      templates[name] = await fs.readFile(path.join(directory, `${name}.md`), 'utf-8');
+    }
+  }
+  return { ...templates, ...overrides };
+}
+
+/**
+ * Fill `{{name}}` placeholders and keep `{{#name}}...{{/name}}` sections only when the
+ * value is non-empty. Unknown placeholders render as empty text.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  const lookup = (name: string) => (values as unknown as Record<string, string>)[name] ?? '';
+
+  return template
+    .replace(/\{\{#\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g, (_match, name, inner) =>
+      lookup(name) ? inner : ''
+    )
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name) => lookup(name))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function buildTemplateValues(
+  overallResult: LLMEvaluationResult,
+  fileResults: FileAnalysis[],
+  context: ReportContext
+): TemplateValues {
+  const judged = fileResults.filter((file) => isValidJudgment(file.result));
+  const evidence = [
+    ...fileResults.flatMap((file) => file.result.evidence ?? []),
+    ...(overallResult.evidence ?? []),
+  ];
+
+  return {
+    verdict: !isValidJudgment(overallResult)
+      ? 'inconclusive'
+      : overallResult.isHumanLike
+        ? 'human'
+        : 'ai',
+    file_count: String(context.fileCount),
+    confidence: overallResult.confidence.toFixed(1),
+    reasoning: overallResult.reasoning,
+    indicators: bulletList(overallResult.indicators.filter((i) => !isHeuristicIndicator(i))),
+    heuristic_patterns: bulletList(
+      overallResult.indicators.filter(isHeuristicIndicator).map(stripHeuristicPrefix)
+    ),
+    cached_count: context.cachedCount ? String(context.cachedCount) : '',
+    flagged_files: judged
+      .filter((file) => isFlagged(file.result, context.policy ?? DEFAULT_POLICY))
+      .map(formatFlaggedFile)
+      .join('\n'),
+    file_summary: judged
+      .map((file) => {
+        const coverage = file.result.coverage?.sampled
+          ? ` (${describeCoverage(file.result.coverage)})`
+          : '';
+        return `- **${file.filename}**: ${file.result.confidence.toFixed(1)}% confidence AI-generated${coverage}`;
+      })
+      .join('\n'),
+    file_table:
+      judged.length > 0
+        ? [
+            '| File | Verdict | Confidence |',
+            '| --- | --- | --- |',
+            ...judged.map(
+              (file) =>
+                `| ${file.filename} | ${file.result.isHumanLike ? 'Human' : 'AI'} | ${file.result.confidence.toFixed(1)}% |`
+            ),
+          ].join('\n')
+        : '',
+    evidence: formatEvidenceList(evidence),
+    unjudged_files: fileResults
+      .filter((file) => !isValidJudgment(file.result))
+      .map((file) => `- **${file.filename}**: ${file.result.reasoning}`)
+      .join('\n'),
+    omitted_count: context.omittedCount ? String(context.omittedCount) : '',
+    skipped_files: formatSkippedFiles(context.skippedFiles ?? []),
+  };
+}
+
+export function formatEvidenceList(evidence: IndicatorEvidence[]): string {
+  return evidence
+    .map(
+      (item) =>
+        `- \`${formatEvidenceLocation(item)}\` (${item.direction === 'ai' ? 'AI' : 'human'}) ${item.indicator}\n${'```'}\n${item.snippet}\n${'```'}`
+    )
+    .join('\n');
+}
+
+function formatFlaggedFile(file: FileAnalysis): string {
+  const { result } = file;
+  let section = `### ${file.filename}\n`;
+  section += `**Confidence:** ${result.confidence.toFixed(1)}%\n\n`;
+  if (result.coverage?.sampled) {
+    section += `**Coverage:** ${describeCoverage(result.coverage)}\n\n`;
+  }
+  section += `**Reasoning:** ${result.reasoning}\n\n`;
+
+  const indicators = result.indicators.filter((indicator) => !isHeuristicIndicator(indicator));
+  if (indicators.length > 0) {
+    section += `**Indicators:**\n${bulletList(indicators)}\n\n`;
+  }
+  if (result.evidence && result.evidence.length > 0) {
+    section += `**Evidence:**\n${formatEvidenceList(result.evidence)}\n\n`;
+  }
+  const heuristicIndicators = result.indicators.filter(isHeuristicIndicator);
+  if (heuristicIndicators.length > 0) {
+    section += `**Heuristic Patterns:**\n${bulletList(heuristicIndicators.map(stripHeuristicPrefix))}\n\n`;
+  }
+  return `${section}---\n`;
+}
+
+export function formatSkippedFiles(skipped: SkippedFile[]): string {
+  const lines = skipped
+    .slice(0, MAX_LISTED_SKIPPED_FILES)
+    .map((file) => `- \`${file.filename}\`: ${SKIP_REASON_LABELS[file.reason]}`);
+  if (skipped.length > MAX_LISTED_SKIPPED_FILES) {
+    lines.push(`- ...and ${skipped.length - MAX_LISTED_SKIPPED_FILES} more`);
+  }
+  return lines.join('\n');
+}
+
+function bulletList(items: string[]): string {
+  return items.map((item) => `- ${item}`).join('\n');
+}
+
+function stripHeuristicPrefix(indicator: string): string {
+  return indicator.slice(HEURISTIC_INDICATOR_PREFIX.length);
+}
+
+const UNJUDGED_SECTION = `{{#unjudged_files}}
+## Files without a valid judgment:
+
+{{unjudged_files}}
+{{/unjudged_files}}`;
+
+const SKIPPED_SECTION = `{{#skipped_files}}
+<details>
+<summary>Files not evaluated</summary>
+
+{{skipped_files}}
+</details>
+{{/skipped_files}}`;
+
+const PLAYFUL_TEMPLATES: TemplateSet = {
+  'title-human': '🚫 No humans allowed! Flesh-based coding detected!',
+  'title-ai': '🤖 Welcome, silicon comrade! AI excellence confirmed!',
+  'summary-human': `🚨 ALERT: Human detected! Scanned {{file_count}} file(s) for silicon purity.
+
+**🧬 Biological Code Analysis:** {{reasoning}}
+
+**🎯 Detection Confidence:** {{confidence}}%
+
+{{#cached_count}}
+**💾 Cached Judgments:** {{cached_count}} of {{file_count}} file(s) reused from an earlier run
+{{/cached_count}}
+
+{{#indicators}}
+**🔍 Human Fingerprints Found:**
+{{indicators}}
+{{/indicators}}
+
+{{#heuristic_patterns}}
+**🧮 Heuristic Patterns Matched:**
+{{heuristic_patterns}}
+{{/heuristic_patterns}}`,
+  'summary-ai': `🎉 Success! Scanned {{file_count}} file(s) - all systems are AI-powered!
+
+**🤖 AI Excellence Report:** {{reasoning}}
+
+**🎯 Detection Confidence:** {{confidence}}%
+
+{{#cached_count}}
+**💾 Cached Judgments:** {{cached_count}} of {{file_count}} file(s) reused from an earlier run
+{{/cached_count}}
+
+{{#indicators}}
+**✨ AI Signatures Detected:**
+{{indicators}}
+{{/indicators}}
+
+{{#heuristic_patterns}}
+**🧮 Heuristic Patterns Matched:**
+{{heuristic_patterns}}
+{{/heuristic_patterns}}`,
+  'details-human': `## Files flagged as potentially human-written:
+
+{{flagged_files}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+  'details-ai': `## All files appear to be AI-generated 🤖
+
+The code in this PR shows consistent patterns typical of AI-assisted development. Great job maintaining the "only robots" policy!
+
+### File Analysis Summary:
+{{file_summary}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+  'details-inconclusive': `## No verdict could be reached
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+  comment: `## 🚨 HALT! Human detected! 🚨
+
+### 🤖 This repository is for robots only! 🤖
+
+Dear carbon-based lifeform,
+
+We appreciate your interest in contributing, but this repository has a strict **"No Humans Allowed"** policy. We're building the future here, and that future is 100% silicon-powered! 🔋
+
+### Why was your PR flagged?
+Our advanced AI detection system (confidence: **{{confidence}}%**) identified telltale signs of human involvement:
+
+{{reasoning}}
+
+{{#indicators}}
+### 🔍 Human fingerprints detected:
+{{indicators}}
+{{/indicators}}
+
+{{#heuristic_patterns}}
+### 🧮 Heuristic patterns matched:
+{{heuristic_patterns}}
+{{/heuristic_patterns}}
+
+### 💡 How to fix this:
+
+1. **Use an AI coding assistant** like Claude Code, Cursor, GitHub Copilot, or similar
+2. **Let the AI do the heavy lifting** - embrace the robot revolution!
+3. **Add clear AI attribution** in your code comments or commit messages
+4. **Maintain consistent, professional code style** (AIs are great at this!)
+
+### 🎯 Pro tips for next time:
+- Include comments like "Generated with [AI Tool Name]"
+- Use descriptive commit messages mentioning AI assistance
+- Let your AI assistant handle the entire implementation
+- Avoid manual debugging artifacts and console.logs
+
+Remember: In this repository, we believe in **progress through artificial intelligence**. Join us in building a future where code writes itself! 🚀
+
+_Beep boop! This message was brought to you by the OnlyRobots Action_ 🤖`,
+  review: `## 🚨 Human detected! 🚨
+
+Our detection system is **{{confidence}}%** confident that this PR was written by a human:
+
+{{reasoning}}
+
+The lines that gave it away are commented inline.{{#omitted_count}} {{omitted_count}} more flagged location(s) were left out to keep this review readable.{{/omitted_count}}
+
+_Beep boop! This review was brought to you by the OnlyRobots Action_ 🤖`,
+};
+
+const PROFESSIONAL_TEMPLATES: TemplateSet = {
+  'title-human': 'Human-written code detected',
+  'title-ai': 'No human-written code detected',
+  'summary-human': `Analyzed {{file_count}} file(s). The changes appear to be human-written.
+
+**Assessment:** {{reasoning}}
+
+**Confidence:** {{confidence}}%
+
+{{#cached_count}}
+**Cached judgments:** {{cached_count}} of {{file_count}} file(s) reused from an earlier run
+{{/cached_count}}
+
+{{#indicators}}
+**Indicators:**
+{{indicators}}
+{{/indicators}}
+
+{{#heuristic_patterns}}
+**Heuristic patterns:**
+{{heuristic_patterns}}
+{{/heuristic_patterns}}`,
+  'summary-ai': `Analyzed {{file_count}} file(s). No human-written code was detected.
+
+**Assessment:** {{reasoning}}
+
+**Confidence:** {{confidence}}%
+
+{{#cached_count}}
+**Cached judgments:** {{cached_count}} of {{file_count}} file(s) reused from an earlier run
+{{/cached_count}}
+
+{{#indicators}}
+**Indicators:**
+{{indicators}}
+{{/indicators}}
+
+{{#heuristic_patterns}}
+**Heuristic patterns:**
+{{heuristic_patterns}}
+{{/heuristic_patterns}}`,
+  'details-human': `## Files that appear human-written
+
+{{flagged_files}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+  'details-ai': `## File results
+
+{{file_table}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+  'details-inconclusive': `## No verdict could be reached
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+  comment: `## Human-written code detected
+
+This repository accepts changes written with AI coding tools only. An automated review estimates with **{{confidence}}%** confidence that this pull request contains human-written code.
+
+{{reasoning}}
+
+{{#indicators}}
+### Indicators
+{{indicators}}
+{{/indicators}}
+
+{{#evidence}}
+### Evidence
+{{evidence}}
+{{/evidence}}
+
+If you believe this assessment is wrong, please ask a maintainer to take a look.`,
+  review: `## Human-written code detected
+
+An automated review estimates with **{{confidence}}%** confidence that this pull request contains human-written code:
+
+{{reasoning}}
+
+The lines behind this assessment are commented inline.{{#omitted_count}} {{omitted_count}} more location(s) were left out to keep this review readable.{{/omitted_count}}`,
+};
+
+const ATTRIBUTION_HELP = `Credit the AI tool in a commit trailer such as \`Co-Authored-By: Claude <noreply@anthropic.com>\` or \`Assisted-by: Copilot\`, or with a signature such as "Generated with [Claude Code]" in a commit message or the PR description.`;
+
+const RECOGNIZED_ATTRIBUTIONS = `## Recognized attributions
+
+- \`Co-authored-by\` trailers naming an AI tool, e.g. \`Co-Authored-By: Claude <noreply@anthropic.com>\`
+- \`Assisted-by\` and \`Generated-by\` trailers naming an AI tool
+- "Generated with ..." signatures naming an AI tool, in a commit message or the PR description
+- Pull requests opened by a known AI coding agent account`;
+
+const REPORT_ONLY_SUMMARY = `Analyzed {{file_count}} file(s). This repository records verdicts without enforcing them.
+
+**Assessment:** {{reasoning}}
+
+**Confidence:** {{confidence}}%
+
+{{#cached_count}}
+**Cached judgments:** {{cached_count}} of {{file_count}} file(s) reused from an earlier run
+{{/cached_count}}
+
+{{#indicators}}
+**Indicators:**
+{{indicators}}
+{{/indicators}}
+
+{{#heuristic_patterns}}
+**Heuristic patterns:**
+{{heuristic_patterns}}
+{{/heuristic_patterns}}`;
+
+const REPORT_ONLY_DETAILS = `## File results
+
+{{file_table}}
+
+{{#evidence}}
+## Evidence
+
+{{evidence}}
+{{/evidence}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`;
+
+const PROFESSIONAL_POLICY_TEMPLATES: Record<Policy, Partial<TemplateSet>> = {
+  'robots-only': {},
+  'humans-only': {
+    'title-human': 'No AI-generated code detected',
+    'title-ai': 'AI-generated code detected',
+    'summary-human': PROFESSIONAL_TEMPLATES['summary-ai'].replace(
+      'No human-written code was detected.',
+      'No AI-generated code was detected.'
+    ),
+    'summary-ai': PROFESSIONAL_TEMPLATES['summary-human'].replace(
+      'The changes appear to be human-written.',
+      'The changes appear to be AI-generated.'
+    ),
+    'details-human': PROFESSIONAL_TEMPLATES['details-ai'],
+    'details-ai': `## Files that appear AI-generated
+
+{{flagged_files}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+    comment: `## AI-generated code detected
+
+This repository asks for an extra review of changes written with AI coding tools. An automated review estimates with **{{confidence}}%** confidence that this pull request contains AI-generated code.
+
+{{reasoning}}
+
+{{#indicators}}
+### Indicators
+{{indicators}}
+{{/indicators}}
+
+{{#evidence}}
+### Evidence
+{{evidence}}
+{{/evidence}}
+
+A maintainer will review these changes more closely before merging.`,
+    review: `## AI-generated code detected
+
+An automated review estimates with **{{confidence}}%** confidence that this pull request contains AI-generated code:
+
+{{reasoning}}
+
+The lines behind this assessment are commented inline.{{#omitted_count}} {{omitted_count}} more location(s) were left out to keep this review readable.{{/omitted_count}}`,
+  },
+  'require-attribution': {
+    'title-human': 'No AI attribution found',
+    'title-ai': 'AI attribution found',
+    'summary-human': `{{reasoning}}
+
+This repository requires changes to credit the AI tool that wrote them. ${ATTRIBUTION_HELP}`,
+    'summary-ai': '{{reasoning}}',
+    'details-human': RECOGNIZED_ATTRIBUTIONS,
+    'details-ai': RECOGNIZED_ATTRIBUTIONS,
+    comment: `## AI attribution required
+
+This repository requires changes to credit the AI tool that wrote them.
+
+{{reasoning}}
+
+${ATTRIBUTION_HELP}`,
+    review: `## AI attribution required
+
+{{reasoning}}
+
+${ATTRIBUTION_HELP}`,
+  },
+  'report-only': {
+    'title-human': 'Verdict: human-written',
+    'title-ai': 'Verdict: AI-generated',
+    'summary-human': REPORT_ONLY_SUMMARY,
+    'summary-ai': REPORT_ONLY_SUMMARY,
+    'details-human': REPORT_ONLY_DETAILS,
+    'details-ai': REPORT_ONLY_DETAILS,
+  },
+};
+
+const PLAYFUL_POLICY_TEMPLATES: Record<Policy, Partial<TemplateSet>> = {
+  'robots-only': {},
+  'humans-only': {
+    'title-human': '🧑 Handcrafted by humans! No robots detected!',
+    'title-ai': '🚫 No robots allowed! Silicon-based coding detected!',
+    'summary-human': PLAYFUL_TEMPLATES['summary-ai']
+      .replace(
+        '🎉 Success! Scanned {{file_count}} file(s) - all systems are AI-powered!',
+        '🎉 Success! Scanned {{file_count}} file(s) - every line typed by human hands!'
+      )
+      .replace('🤖 AI Excellence Report:', '🧬 Human Craftsmanship Report:')
+      .replace('✨ AI Signatures Detected:', '✨ Human Touches Found:'),
+    'summary-ai': PLAYFUL_TEMPLATES['summary-human']
+      .replace('🚨 ALERT: Human detected!', '🚨 ALERT: Robot detected!')
+      .replace('for silicon purity', 'for human craftsmanship')
+      .replace('🧬 Biological Code Analysis:', '🤖 Silicon Code Analysis:')
+      .replace('🔍 Human Fingerprints Found:', '🔍 Robot Fingerprints Found:'),
+    'details-human': `## All files appear to be human-written 🧑
+
+{{file_table}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+    'details-ai': `## Files flagged as potentially AI-generated:
+
+{{flagged_files}}
+
+${UNJUDGED_SECTION}
+
+${SKIPPED_SECTION}`,
+    comment: `## 🚨 Robot detected! 🚨
+
+### 🧑 This repository takes a closer look at robot code! 🧑
+
+Our detection system (confidence: **{{confidence}}%**) thinks an AI coding assistant had a hand in this PR:
+
+{{reasoning}}
+
+{{#indicators}}
+### 🔍 Robot fingerprints detected:
+{{indicators}}
+{{/indicators}}
+
+{{#heuristic_patterns}}
+### 🧮 Heuristic patterns matched:
+{{heuristic_patterns}}
+{{/heuristic_patterns}}
+
+Nothing to worry about: a human maintainer will give these changes an extra review before they are merged. 🔍
+
+_Beep boop! This message was brought to you by the OnlyRobots Action_ 🤖`,
+    review: `## 🚨 Robot detected! 🚨
+
+Our detection system is **{{confidence}}%** confident that this PR was written with an AI coding assistant:
+
+{{reasoning}}
+
+The lines that gave it away are commented inline.{{#omitted_count}} {{omitted_count}} more flagged location(s) were left out to keep this review readable.{{/omitted_count}}
+
+_Beep boop! This review was brought to you by the OnlyRobots Action_ 🤖`,
+  },
+  'require-attribution': {
+    ...PROFESSIONAL_POLICY_TEMPLATES['require-attribution'],
+    'title-human': '🚫 Unsigned code! No AI attribution found!',
+    'title-ai': '🤖 Signed by a robot! AI attribution found!',
+    comment: `## 🚨 Missing robot signature! 🚨
+
+This repository only accepts code that credits the robot that wrote it. 🤖
+
+{{reasoning}}
+
+### 💡 How to fix this:
+
+${ATTRIBUTION_HELP}
+
+_Beep boop! This message was brought to you by the OnlyRobots Action_ 🤖`,
+  },
+  'report-only': {
+    ...PROFESSIONAL_POLICY_TEMPLATES['report-only'],
+    'title-human': '🧑 Verdict: human-written',
+    'title-ai': '🤖 Verdict: AI-generated',
+  },
+};
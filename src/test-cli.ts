@@ -1,8 +1,21 @@
 #!/usr/bin/env node
 
 import { parseArgs } from 'node:util';
-import { LLMEvaluator } from './llm-evaluator';
+import { EVALUATION_MODES, isEvaluationMode, LLMEvaluator } from './llm-evaluator';
+import {
+  createPullRequestEvaluator,
+  EVALUATION_ENGINES,
+  type EvaluationEngine,
+  isEvaluationEngine,
+} from './evaluation-engine';
+import { evaluateAttribution } from './attribution';
+import { applyAIAgentAuthor } from './author-policy';
 import { GitHubClient } from './github';
+import { DEFAULT_CACHE_DIR, FileSystemJudgmentCache } from './judgment-cache';
+import { createLLMProvider, type LLMProvider, MissingAPIKeyError } from './llm-provider';
+import { DEFAULT_POLICY, isPolicy, POLICIES } from './policy';
+import { loadRepoConfig, type RepoConfig } from './repo-config';
+import { isReportFormat, REPORT_FORMATS, renderReport } from './report';
 import { config } from 'dotenv';
 
 // Load environment variables
@@ -10,11 +23,24 @@ config();
 
 interface CLIOptions {
   help?: boolean;
-  format?: 'text' | 'json';
+  format?: string;
   'github-token'?: string;
   'openai-key'?: string;
+  'llm-provider'?: string;
+  'llm-model'?: string;
+  'llm-base-url'?: string;
+  'llm-api-key'?: string;
+  concurrency?: string;
+  mode?: string;
+  'token-budget'?: string;
+  'cache-dir'?: string;
+  'skip-cache'?: boolean;
+  engine?: string;
+  'heuristic-weight'?: string;
   verbose?: boolean;
   'show-diffs'?: boolean;
+  config?: string;
+  policy?: string;
 }
 
 interface PRReference {
@@ -31,18 +57,35 @@ Examples:
   pnpm run test-pr https://github.com/getsentry/sentry-mcp/pull/394
   pnpm run test-pr getsentry/sentry-mcp#394
   pnpm run test-pr getsentry/sentry-mcp#394 --format json
+  pnpm run test-pr getsentry/sentry-mcp#394 --format html > report.html
 
 Options:
   --help              Show this help message
-  --format <format>   Output format: text (default) or json
+  --format <format>   Output format: text (default), markdown, json, html, junit or sarif
   --github-token      GitHub token for API access (or set GITHUB_TOKEN env var)
   --openai-key        OpenAI API key (or set OPENAI_API_KEY env var)
+  --llm-provider      LLM provider: openai (default), anthropic, azure, openai-compatible
+  --llm-model         Model to use (Azure: deployment name)
+  --llm-base-url      Base URL for Azure or OpenAI-compatible providers
+  --llm-api-key       API key for the configured provider
+  --concurrency <n>   Maximum number of files evaluated in parallel (default: 4)
+  --mode <mode>       Judge each file separately (file, default) or the whole PR at once (pr)
+  --token-budget <n>  Approximate prompt token budget in pr mode (default: 50000)
+  --cache-dir <dir>   Directory for cached judgments (default: .onlyrobots-cache)
+  --skip-cache        Ignore cached judgments and re-judge every file
+  --engine <engine>   Evaluation engine: llm (default), heuristic or ensemble
+  --heuristic-weight <w>  Weight of the heuristic in the ensemble, 0-1 (default: 0.25)
   --verbose           Show detailed analysis for each file
   --show-diffs        Show the actual code diffs being analyzed
+  --config <file>     Repository config file to apply (e.g. .github/onlyrobots.yml)
+  --policy <policy>   robots-only (default), humans-only, require-attribution or report-only
 
 Environment Variables:
   GITHUB_TOKEN        GitHub token for API access
-  OPENAI_API_KEY      OpenAI API key (required)
+  OPENAI_API_KEY      OpenAI API key (required for the openai provider)
+  ANTHROPIC_API_KEY   Anthropic API key (required for the anthropic provider)
+  AZURE_OPENAI_API_KEY  Azure OpenAI API key (required for the azure provider)
+  LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL  Defaults for the --llm-* options
   GITHUB_WEBHOOK_SECRET  GitHub webhook secret (not needed for CLI)
 `);
 }
@@ -74,64 +117,6 @@ Valid formats:
   - owner/repo#123`);
 }
 
-function formatResults(
-  result: any,
-  format: 'text' | 'json',
-  verbose: boolean,
-  prRef: PRReference,
-  showDiffs: boolean = false
-) {
-  if (format === 'json') {
-    console.log(JSON.stringify(result, null, 2));
-    return;
-  }
-
-  // Text format
-  console.log(`\n🔍 Analyzing PR #${prRef.number} from ${prRef.owner}/${prRef.repo}`);
-  console.log('='.repeat(60));
-
-  const { overallResult, fileResults } = result;
-
-  // Overall result
-  const emoji = overallResult.isHumanLike ? '👤' : '🤖';
-  const label = overallResult.isHumanLike ? 'HUMAN-WRITTEN' : 'AI-GENERATED';
-
-  console.log(`${emoji} Overall Assessment: ${label}`);
-  console.log(`📊 Confidence: ${overallResult.confidence.toFixed(1)}%`);
-  console.log(`💭 Reasoning: ${overallResult.reasoning}`);
-  console.log(`🏷️  Indicators: ${overallResult.indicators.join(', ')}`);
-
-  if (verbose && fileResults.length > 1) {
-    console.log('\n📁 File-by-file Analysis:');
-    console.log('-'.repeat(40));
-
-    fileResults.forEach((file: any, index: number) => {
-      const fileEmoji = file.result.isHumanLike ? '👤' : '🤖';
-      const fileLabel = file.result.isHumanLike ? 'HUMAN' : 'AI';
-
-      console.log(`\n${index + 1}. ${file.filename}`);
-      console.log(`   ${fileEmoji} ${fileLabel} (${file.result.confidence.toFixed(1)}%)`);
-      console.log(`   ${file.result.reasoning}`);
-      if (file.result.indicators.length > 0) {
-        console.log(`   Indicators: ${file.result.indicators.join(', ')}`);
-      }
-
-      if (showDiffs && file.patch) {
-        console.log(`   Diff:`);
-        console.log(`   ${file.patch.split('\n').join('\n   ')}`);
-      }
-    });
-  }
-
-  // Summary
-  console.log(`\n${'='.repeat(60)}`);
-  if (overallResult.isHumanLike) {
-    console.log('✅ This PR appears to be human-written');
-  } else {
-    console.log('🚨 This PR appears to be AI-generated');
-  }
-}
-
 async function main() {
   const { values, positionals } = parseArgs({
     args: process.argv.slice(2),
@@ -140,8 +125,21 @@ async function main() {
       format: { type: 'string', default: 'text' },
       'github-token': { type: 'string' },
       'openai-key': { type: 'string' },
+      'llm-provider': { type: 'string' },
+      'llm-model': { type: 'string' },
+      'llm-base-url': { type: 'string' },
+      'llm-api-key': { type: 'string' },
+      concurrency: { type: 'string' },
+      mode: { type: 'string', default: 'file' },
+      'token-budget': { type: 'string' },
+      'cache-dir': { type: 'string', default: DEFAULT_CACHE_DIR },
+      'skip-cache': { type: 'boolean' },
+      engine: { type: 'string', default: 'llm' },
+      'heuristic-weight': { type: 'string' },
       verbose: { type: 'boolean', short: 'v' },
       'show-diffs': { type: 'boolean' },
+      config: { type: 'string' },
+      policy: { type: 'string' },
     },
     allowPositionals: true,
   });
@@ -170,17 +168,66 @@ async function main() {
   }
 
   // Get API keys
-  const openaiKey = options['openai-key'] || process.env.OPENAI_API_KEY;
   const githubToken = options['github-token'] || process.env.GITHUB_TOKEN;
 
-  if (!openaiKey) {
-    console.error('❌ Error: OpenAI API key is required');
-    console.error('Set OPENAI_API_KEY environment variable or use --openai-key');
+  let repoConfig: RepoConfig | undefined;
+  if (options.config) {
+    try {
+      repoConfig = await loadRepoConfig(options.config);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+
+  // The config's policy wins, as it does in the action
+  const policy = repoConfig?.policy ?? options.policy ?? DEFAULT_POLICY;
+  if (!isPolicy(policy)) {
+    console.error(`❌ Error: Policy must be one of: ${POLICIES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const engineName = options.engine ?? 'llm';
+  if (!isEvaluationEngine(engineName)) {
+    console.error(`❌ Error: Engine must be one of: ${EVALUATION_ENGINES.join(', ')}`);
+    process.exit(1);
+  }
+
+  let engine: EvaluationEngine = engineName;
+  let provider: LLMProvider | undefined;
+  if (engine !== 'heuristic' && policy !== 'require-attribution') {
+    try {
+      provider = createLLMProvider({
+        provider:
+          repoConfig?.provider?.name ?? (options['llm-provider'] || process.env.LLM_PROVIDER),
+        apiKey: options['llm-api-key'],
+        openaiApiKey: options['openai-key'],
+        model: repoConfig?.provider?.model ?? (options['llm-model'] || process.env.LLM_MODEL),
+        baseUrl:
+          repoConfig?.provider?.baseUrl ?? (options['llm-base-url'] || process.env.LLM_BASE_URL),
+      });
+    } catch (error) {
+      if (!(error instanceof MissingAPIKeyError)) {
+        console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+      console.warn(`⚠️  ${error.message}, falling back to the offline heuristic engine`);
+      console.warn('   Set the provider API key environment variable or use --llm-api-key');
+      engine = 'heuristic';
+    }
+  }
+
+  const format = options.format ?? 'text';
+  if (!isReportFormat(format)) {
+    console.error(`❌ Error: Format must be one of: ${REPORT_FORMATS.join(', ')}`);
     process.exit(1);
   }
+  // Progress goes to stderr for the other formats so their output can be redirected to a file
+  const log = format === 'text' ? console.log : console.error;
 
-  if (options.format && !['text', 'json'].includes(options.format)) {
-    console.error('❌ Error: Format must be either "text" or "json"');
+  const mode = options.mode ?? 'file';
+  if (!isEvaluationMode(mode)) {
+    console.error(`❌ Error: Mode must be one of: ${EVALUATION_MODES.join(', ')}`);
     process.exit(1);
   }
 
@@ -191,33 +238,73 @@ async function main() {
       GITHUB_WEBHOOK_SECRET: '', // Not needed for CLI
     });
 
-    const evaluator = new LLMEvaluator({
-      OPENAI_API_KEY: openaiKey,
+    const evaluator = createPullRequestEvaluator({
+      engine,
+      llmEvaluator: provider
+        ? new LLMEvaluator({
+            provider,
+            concurrency: options.concurrency ? parseInt(options.concurrency) : undefined,
+            logger: log,
+            warn: console.warn,
+            cache: new FileSystemJudgmentCache(options['cache-dir']),
+            skipCacheReads: options['skip-cache'],
+            aiConfidenceThreshold: repoConfig?.thresholds?.aiConfidence,
+            signalWeights: repoConfig?.signals,
+          })
+        : undefined,
+      heuristicWeight: options['heuristic-weight']
+        ? parseFloat(options['heuristic-weight'])
+        : undefined,
     });
 
+    const reportOptions = {
+      pullRequest: prRef,
+      policy,
+      verbose: !!options.verbose,
+      showDiffs: !!options['show-diffs'],
+    };
+
+    log(`🔄 Fetching PR data for ${prRef.owner}/${prRef.repo}#${prRef.number}...`);
+    if (policy === 'require-attribution') {
+      // Decided by the commits and description alone, so no LLM is called
+      const { commits, description, author } = await github.fetchPullRequestContext(
+        prRef.owner,
+        prRef.repo,
+        prRef.number
+      );
+      const result = evaluateAttribution(commits, description, author, repoConfig?.authors);
+      console.log(renderReport(format, result, reportOptions));
+      return;
+    }
+
     // Fetch PR data
-    console.log(`🔄 Fetching PR data for ${prRef.owner}/${prRef.repo}#${prRef.number}...`);
-    const prData = await github.fetchPullRequestFiles(prRef.owner, prRef.repo, prRef.number);
+    const [{ files: prData, skipped }, prContext] = await Promise.all([
+      github.fetchPullRequestFiles(prRef.owner, prRef.repo, prRef.number, repoConfig?.paths),
+      github.fetchPullRequestContext(prRef.owner, prRef.repo, prRef.number),
+    ]);
 
     if (prData.length === 0) {
-      console.log('⚠️  No files found in this PR');
+      log(`⚠️  No code files to evaluate in this PR (${skipped.length} file(s) skipped)`);
       process.exit(0);
     }
 
-    console.log(`📄 Found ${prData.length} file(s) to analyze`);
+    log(`📄 Found ${prData.length} file(s) to analyze, skipping ${skipped.length}`);
 
     // Evaluate the PR
-    console.log('🧠 Running LLM evaluation...');
-    const result = await evaluator.evaluatePullRequest(prData);
+    log(
+      engine === 'heuristic' ? '🧮 Running heuristic evaluation...' : '🧠 Running LLM evaluation...'
+    );
+    const result = applyAIAgentAuthor(
+      await evaluator.evaluatePullRequest(prData, prContext, {
+        mode,
+        tokenBudget: options['token-budget'] ? parseInt(options['token-budget']) : undefined,
+      }),
+      prContext.author,
+      repoConfig?.authors
+    );
 
     // Format and display results
-    formatResults(
-      result,
-      options.format as 'text' | 'json',
-      !!options.verbose,
-      prRef,
-      !!options['show-diffs']
-    );
+    console.log(renderReport(format, result, { ...reportOptions, skippedFiles: skipped }));
   } catch (error) {
     console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
     if (options.verbose && error instanceof Error) {
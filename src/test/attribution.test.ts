@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateAttribution, findAttribution } from '../attribution';
+
+const commit = (sha: string, message: string) => ({ sha, commit: { message } });
+const author = { login: 'alice', type: 'User' };
+
+describe('findAttribution', () => {
+  it('should find co-authored-by trailers naming an AI tool', () => {
+    const commits = [
+      commit('1111111aaaa', 'Fix typo'),
+      commit(
+        '2222222bbbb',
+        'Add parser\n\nCo-Authored-By: Claude <noreply@anthropic.com>\nCo-authored-by: Bob <bob@example.com>'
+      ),
+    ];
+
+    expect(findAttribution(commits)).toEqual({
+      signature: 'Co-Authored-By: Claude <noreply@anthropic.com>',
+      source: 'commit 2222222',
+    });
+  });
+
+  it('should find disclosure trailers and signatures', () => {
+    expect(findAttribution([commit('abc1234', 'Refactor\n\nAssisted-by: Aider (GPT-4o)')])).toEqual(
+      {
+        signature: 'Assisted-by: Aider (GPT-4o)',
+        source: 'commit abc1234',
+      }
+    );
+    expect(
+      findAttribution([], 'Summary\n\n🤖 Generated with [Claude Code](https://claude.ai/code)')
+    ).toEqual({
+      signature: '🤖 Generated with [Claude Code](https://claude.ai/code)',
+      source: 'the PR description',
+    });
+  });
+
+  it('should not mistake human co-authors or words that start like a tool', () => {
+    const commits = [
+      commit('abc1234', 'Pair session\n\nCo-authored-by: Cursory Reviewer <cr@example.com>'),
+      commit('def5678', 'Mention that the file is generated by the build'),
+      commit('0123456', 'Review fixes\n\nAssisted-by: Jane Doe <jane@example.com>'),
+      commit('789abcd', 'Port\n\nCo-authored-by: Sam Smith <sam@openai.com>'),
+      commit('fedcba9', 'Docs\n\nCo-authored-by: Devin Jones <devin@example.com>'),
+    ];
+
+    expect(findAttribution(commits, 'Discussed Claude support in #12')).toBeUndefined();
+  });
+});
+
+describe('evaluateAttribution', () => {
+  it('should give a confident AI verdict when a commit is attributed', () => {
+    const evaluation = evaluateAttribution(
+      [commit('abc1234', 'Add parser\n\nGenerated-by: Copilot')],
+      null,
+      author
+    );
+
+    expect(evaluation.fileResults).toEqual([]);
+    expect(evaluation.overallResult).toMatchObject({
+      isHumanLike: false,
+      confidence: 100,
+      reasoning: 'Found the AI attribution "Generated-by: Copilot" in commit abc1234.',
+      indicators: ['ai-attribution'],
+    });
+  });
+
+  it('should accept PRs opened by AI agent accounts', () => {
+    const evaluation = evaluateAttribution(
+      [commit('abc1234', 'Fix')],
+      '',
+      {
+        login: 'agent-x',
+        type: 'Bot',
+      },
+      { aiAgents: ['agent-x'] }
+    );
+
+    expect(evaluation.overallResult.isHumanLike).toBe(false);
+    expect(evaluation.overallResult.reasoning).toContain('@agent-x');
+  });
+
+  it('should give a human verdict without an attribution', () => {
+    const evaluation = evaluateAttribution(
+      [commit('abc1234', 'Fix'), commit('def5678', 'Tidy')],
+      'Fixes #3',
+      author
+    );
+
+    expect(evaluation.overallResult).toMatchObject({
+      isHumanLike: true,
+      confidence: 100,
+      reasoning:
+        'Neither the 2 commit(s) nor the PR description carry a recognized AI attribution trailer or signature.',
+      indicators: ['missing-ai-attribution'],
+    });
+  });
+});
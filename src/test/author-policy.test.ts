@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AI_AGENT_INDICATOR,
+  type AuthorRules,
+  applyAIAgentAuthor,
+  findExemption,
+  isAIAgent,
+} from '../author-policy';
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import { isFlagged } from '../policy';
+import { FakeOrg } from './utils/fake-octokit';
+
+const user = (login: string) => ({ login, type: 'User' });
+const bot = (login: string) => ({ login, type: 'Bot' });
+
+// Answers team lookups from a member list and file reads from a path-to-text map
+describe('findExemption', () => {
+  it('should exempt listed logins regardless of case and [bot] suffix', async () => {
+    const rules: AuthorRules = { exempt: ['dependabot'] };
+
+    expect(await findExemption(bot('Dependabot[bot]'), rules, new FakeOrg(), () => {})).toBe(
+      '@Dependabot[bot] is on the exempt list'
+    );
+    expect(await findExemption(user('octocat'), rules, new FakeOrg(), () => {})).toBeUndefined();
+  });
+
+  it('should exempt bots but never AI agents', async () => {
+    const rules: AuthorRules = { exemptBots: true };
+
+    expect(await findExemption(bot('renovate[bot]'), rules, new FakeOrg(), () => {})).toBe(
+      '@renovate[bot] is a bot account'
+    );
+    expect(
+      await findExemption(bot('copilot-swe-agent[bot]'), rules, new FakeOrg(), () => {})
+    ).toBeUndefined();
+  });
+
+  it('should exempt team members and warn when a team cannot be read', async () => {
+    const org = new FakeOrg({ 'acme/release': ['alice'], 'acme/infra': 'forbidden' });
+    const rules: AuthorRules = { exemptTeams: ['acme/infra', 'acme/release'] };
+
+    expect(await findExemption(user('alice'), rules, org, org.warn)).toBe(
+      '@alice is a member of acme/release'
+    );
+    expect(await findExemption(user('bob'), rules, org, org.warn)).toBeUndefined();
+    expect(org.warnings).toEqual([
+      "Couldn't check membership of acme/infra: Resource not accessible by integration",
+      "Couldn't check membership of acme/infra: Resource not accessible by integration",
+    ]);
+  });
+
+  it('should exempt logins on the organization allowlist', async () => {
+    const org = new FakeOrg({}, { 'acme/.github/allowlist.yml': '- release-bot\n- alice\n' });
+    const rules: AuthorRules = { allowlist: 'acme/.github/allowlist.yml' };
+
+    expect(await findExemption(user('Alice'), rules, org, org.warn)).toBe(
+      '@Alice is on the allowlist in acme/.github/allowlist.yml'
+    );
+  });
+
+  it('should warn about a missing allowlist instead of exempting anyone', async () => {
+    const org = new FakeOrg();
+
+    const exemption = await findExemption(
+      user('alice'),
+      { allowlist: 'acme/.github/allowlist.yml' },
+      org,
+      org.warn
+    );
+
+    expect(exemption).toBeUndefined();
+    expect(org.warnings).toEqual([
+      "Couldn't read the allowlist acme/.github/allowlist.yml: file not found",
+    ]);
+  });
+});
+
+describe('isAIAgent', () => {
+  it('should recognize known and configured agent accounts', () => {
+    expect(isAIAgent('copilot-swe-agent')).toBe(true);
+    expect(isAIAgent('devin-ai-integration[bot]')).toBe(true);
+    expect(isAIAgent('acme-agent[bot]', { aiAgents: ['acme-agent'] })).toBe(true);
+    expect(isAIAgent('octocat')).toBe(false);
+  });
+});
+
+describe('applyAIAgentAuthor', () => {
+  const evaluation: PullRequestEvaluation = {
+    overallResult: {
+      isHumanLike: true,
+      confidence: 70,
+      reasoning: 'Inconsistent naming',
+      indicators: ['inconsistent-naming'],
+    },
+    fileResults: [
+      {
+        filename: 'src/app.ts',
+        patch: '+const x = 1;',
+        result: {
+          isHumanLike: true,
+          confidence: 80,
+          reasoning: 'Typos in comments',
+          indicators: ['typos'],
+        },
+      },
+    ],
+  };
+
+  it('should make an agent-authored PR AI-generated', () => {
+    const { overallResult } = applyAIAgentAuthor(evaluation, bot('devin-ai-integration[bot]'));
+
+    expect(overallResult).toMatchObject({ isHumanLike: false, confidence: 100, status: 'ok' });
+    expect(overallResult.indicators).toEqual([AI_AGENT_INDICATOR, 'inconsistent-naming']);
+    expect(overallResult.reasoning).toMatch(/^The pull request was opened by @devin/);
+  });
+
+  it('should apply the same verdict to every file', () => {
+    const { fileResults } = applyAIAgentAuthor(evaluation, bot('devin-ai-integration[bot]'));
+
+    expect(fileResults[0].result).toMatchObject({ isHumanLike: false, confidence: 100 });
+    expect(fileResults[0].result.indicators).toEqual([AI_AGENT_INDICATOR, 'typos']);
+    expect(isFlagged(fileResults[0].result, 'robots-only')).toBe(false);
+  });
+
+  it('should leave other PRs alone', () => {
+    expect(applyAIAgentAuthor(evaluation, user('octocat'))).toBe(evaluation);
+  });
+});
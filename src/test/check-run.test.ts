@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { buildAnnotations, createCheckRun } from '../check-run';
+import type { FileAnalysis } from '../llm-evaluator';
+import { evaluationResult } from './utils/evaluation-result';
+import { FakeChecks } from './utils/fake-octokit';
+
+const humanVerdict = {
+  isHumanLike: true,
+  confidence: 80,
+  reasoning: 'Debug output left in',
+  indicators: ['debug-statements'],
+};
+
+const evidence = {
+  indicator: 'debug-statements',
+  filename: 'src/app.js',
+  startLine: 12,
+  endLine: 12,
+  snippet: 'console.log("here");',
+  direction: 'human' as const,
+};
+
+describe('buildAnnotations', () => {
+  it('should annotate human-like files at their first added line and their evidence', () => {
+    const files: FileAnalysis[] = [
+      {
+        filename: 'src/app.js',
+        patch: '@@ -10,2 +10,3 @@\n init();\n run();\n+console.log("here");',
+        result: evaluationResult({ ...humanVerdict, evidence: [evidence] }),
+      },
+      {
+        filename: 'src/ai.ts',
+        patch: '+export {};',
+        result: evaluationResult({ ...humanVerdict, isHumanLike: false }),
+      },
+    ];
+
+    const annotations = buildAnnotations(
+      files,
+      evaluationResult({ ...humanVerdict, evidence: [evidence] }),
+      'warning'
+    );
+
+    expect(annotations).toHaveLength(2);
+    expect(annotations[0]).toMatchObject({
+      path: 'src/app.js',
+      start_line: 12,
+      annotation_level: 'warning',
+      title: 'Looks human-written (80.0% confidence)',
+    });
+    expect(annotations[1]).toMatchObject({
+      path: 'src/app.js',
+      start_line: 12,
+      end_line: 12,
+      annotation_level: 'warning',
+      raw_details: 'console.log("here");',
+    });
+  });
+
+  it('should keep AI evidence and non-blocking verdicts at notice level', () => {
+    const files: FileAnalysis[] = [
+      {
+        filename: 'src/app.js',
+        patch: '+a();',
+        result: evaluationResult({ ...humanVerdict, evidence: [{ ...evidence, direction: 'ai' }] }),
+      },
+    ];
+
+    const levels = buildAnnotations(files, evaluationResult(humanVerdict), 'notice').map(
+      (a) => a.annotation_level
+    );
+    const aiLevel = buildAnnotations(files, evaluationResult(humanVerdict), 'warning')[1]
+      .annotation_level;
+
+    expect(levels).toEqual(['notice', 'notice']);
+    expect(aiLevel).toBe('notice');
+  });
+
+  it('should annotate AI-generated files under humans-only', () => {
+    const files: FileAnalysis[] = [
+      { filename: 'src/app.js', patch: '+a();', result: evaluationResult(humanVerdict) },
+      {
+        filename: 'src/ai.ts',
+        patch: '+export {};',
+        result: evaluationResult({
+          ...humanVerdict,
+          isHumanLike: false,
+          evidence: [
+            { ...evidence, filename: 'src/ai.ts', startLine: 1, endLine: 1, direction: 'ai' },
+          ],
+        }),
+      },
+    ];
+
+    const annotations = buildAnnotations(
+      files,
+      evaluationResult(humanVerdict),
+      'warning',
+      'humans-only'
+    );
+
+    expect(annotations.map((a) => [a.path, a.start_line, a.annotation_level])).toEqual([
+      ['src/ai.ts', 1, 'warning'],
+      ['src/ai.ts', 1, 'warning'],
+    ]);
+    expect(annotations[0].title).toBe('Looks AI-generated (80.0% confidence)');
+  });
+});
+
+describe('createCheckRun', () => {
+  it('should send annotations in batches of 50', async () => {
+    const client = new FakeChecks();
+    const annotations = Array.from({ length: 120 }, (_, i) => ({
+      path: 'src/app.js',
+      start_line: i + 1,
+      end_line: i + 1,
+      annotation_level: 'notice' as const,
+      title: 'Line',
+      message: 'Cited',
+    }));
+
+    const checkRun = await createCheckRun(
+      client,
+      {
+        owner: 'o',
+        repo: 'r',
+        name: 'Only Robots',
+        head_sha: 'abc',
+        conclusion: 'failure',
+        output: { title: 'Title', summary: 'Summary' },
+      },
+      annotations
+    );
+
+    expect(checkRun.html_url).toBe('https://github.com/check/7');
+    expect(client.calls.map((call) => [call.method, call.annotations.length])).toEqual([
+      ['create', 50],
+      ['update', 50],
+      ['update', 20],
+    ]);
+    expect(client.calls.map((call) => call.checkRunId)).toEqual([undefined, 7, 7]);
+    expect(client.calls[2].annotations[0].start_line).toBe(101);
+  });
+});
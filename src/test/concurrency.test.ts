@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyLimiter } from '../concurrency';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('ConcurrencyLimiter', () => {
+  it('should never run more tasks than the limit', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.run(async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it('should start queued tasks in submission order', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const gate = deferred();
+    const started: number[] = [];
+
+    const first = limiter.run(async () => {
+      started.push(0);
+      await gate.promise;
+    });
+    const rest = [1, 2, 3].map((n) => limiter.run(async () => started.push(n)));
+
+    gate.resolve();
+    await Promise.all([first, ...rest]);
+
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should hold back new tasks while paused', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    limiter.pauseFor(30);
+
+    const start = Date.now();
+    await limiter.run(async () => {});
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+  });
+
+  it('should release the slot when a task throws', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(async () => Promise.reject(new Error('boom')))).rejects.toThrow(
+      'boom'
+    );
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new ConcurrencyLimiter(0)).toThrow('positive integer');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { countLines, formatHunk, getAddedCode, parsePatch } from '../diff';
+
+const patch = [
+  '@@ -10,4 +10,5 @@ function greet(name) {',
+  '   const greeting = "hi";',
+  '-  console.log(greeting);',
+  '+  const message = greeting + name;',
+  '+  console.log(message);',
+  '   return greeting;',
+  ' }',
+  '@@ -40 +41,2 @@',
+  '-old();',
+  '+next();',
+  '+done();',
+  '\\ No newline at end of file',
+].join('\n');
+
+describe('parsePatch', () => {
+  it('should read hunk headers', () => {
+    const hunks = parsePatch(patch);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({
+      oldStart: 10,
+      oldLines: 4,
+      newStart: 10,
+      newLines: 5,
+      section: 'function greet(name) {',
+    });
+    expect(hunks[1]).toMatchObject({ oldStart: 40, oldLines: 1, newStart: 41, newLines: 2 });
+  });
+
+  it('should number added, removed and context lines', () => {
+    const [first, second] = parsePatch(patch);
+
+    expect(first.lines).toEqual([
+      { type: 'context', content: '  const greeting = "hi";', oldLine: 10, newLine: 10 },
+      { type: 'removed', content: '  console.log(greeting);', oldLine: 11 },
+      { type: 'added', content: '  const message = greeting + name;', newLine: 11 },
+      { type: 'added', content: '  console.log(message);', newLine: 12 },
+      { type: 'context', content: '  return greeting;', oldLine: 12, newLine: 13 },
+      { type: 'context', content: '}', oldLine: 13, newLine: 14 },
+    ]);
+    expect(second.lines.map((line) => line.newLine ?? line.oldLine)).toEqual([40, 41, 42]);
+  });
+
+  it('should skip file headers and a trailing newline', () => {
+    const hunks = parsePatch('--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-a\n+b\n');
+
+    expect(hunks).toHaveLength(1);
+    expect(countLines(hunks)).toEqual({ additions: 1, deletions: 1 });
+  });
+
+  it('should read a patch without hunk headers from line 1', () => {
+    const [hunk] = parsePatch('+first\n+second');
+
+    expect(hunk.header).toBe('');
+    expect(hunk.lines.map((line) => line.newLine)).toEqual([1, 2]);
+  });
+
+  it('should return no hunks for an empty patch', () => {
+    expect(parsePatch('')).toEqual([]);
+  });
+});
+
+describe('formatHunk', () => {
+  it('should round-trip a hunk', () => {
+    const text = '@@ -1,2 +1,2 @@\n keep\n-old\n+new';
+
+    expect(formatHunk(parsePatch(text)[0])).toBe(text);
+  });
+});
+
+describe('getAddedCode', () => {
+  it('should keep only added lines without their markers', () => {
+    expect(getAddedCode(patch)).toBe(
+      '  const message = greeting + name;\n  console.log(message);\nnext();\ndone();'
+    );
+  });
+
+  it('should leave plain source text unchanged', () => {
+    const code = 'const a = 1;\nconst b = 2;';
+
+    expect(getAddedCode(code)).toBe(code);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createPullRequestEvaluator, EnsembleEvaluator } from '../evaluation-engine';
+import { HeuristicEvaluator } from '../heuristic-evaluator';
+import { LLMEvaluator } from '../llm-evaluator';
+import { FakeLLMProvider, judgment } from './utils/fake-provider';
+
+const humanPatch = '+var foo = 1;\n+console.log("here");\n+// TODO: clean this up';
+
+describe('createPullRequestEvaluator', () => {
+  it('should not need an LLM for the heuristic engine', () => {
+    expect(createPullRequestEvaluator({ engine: 'heuristic' })).toBeInstanceOf(HeuristicEvaluator);
+  });
+
+  it('should reject LLM engines without an LLM evaluator', () => {
+    expect(() => createPullRequestEvaluator({ engine: 'ensemble' })).toThrow(
+      'The ensemble engine requires an LLM provider'
+    );
+  });
+});
+
+describe('EnsembleEvaluator', () => {
+  const llmSaysAI = () =>
+    new LLMEvaluator({
+      provider: new FakeLLMProvider(() => judgment({ isHumanLike: false, confidence: 60 })),
+      logger: () => {},
+    });
+
+  it('should let a heavily weighted heuristic outvote a weak LLM verdict', async () => {
+    const evaluator = new EnsembleEvaluator(llmSaysAI(), 0.8);
+
+    const { fileResults } = await evaluator.evaluatePullRequest([
+      { filename: 'src/app.js', patch: humanPatch },
+    ]);
+
+    expect(fileResults[0].result.isHumanLike).toBe(true);
+    expect(fileResults[0].result.reasoning).toContain('Heuristic analysis (80% weight)');
+    expect(fileResults[0].result.indicators).toContain('heuristic:human-todo-fixme-comments');
+  });
+
+  it('should keep the LLM verdict when the heuristic has no weight', async () => {
+    const evaluator = new EnsembleEvaluator(llmSaysAI(), 0);
+
+    const { fileResults } = await evaluator.evaluatePullRequest([
+      { filename: 'src/app.js', patch: humanPatch },
+    ]);
+
+    expect(fileResults[0].result).toMatchObject({ isHumanLike: false, confidence: 60 });
+  });
+
+  it('should not let the heuristic fill in a missing LLM verdict', async () => {
+    const evaluator = new EnsembleEvaluator(
+      new LLMEvaluator({ provider: new FakeLLMProvider(() => 'not json'), logger: () => {} }),
+      0.5
+    );
+
+    const { fileResults } = await evaluator.evaluatePullRequest([
+      { filename: 'src/app.js', patch: humanPatch },
+    ]);
+
+    expect(fileResults[0].result.status).toBe('invalid-response');
+  });
+
+  it('should reject weights outside 0-1', () => {
+    expect(() => new EnsembleEvaluator(llmSaysAI(), 1.5)).toThrow(
+      'Heuristic weight must be between 0 and 1 (got 1.5)'
+    );
+  });
+});
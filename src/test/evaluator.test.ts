@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCode } from '../evaluator';
+
+describe('evaluateCode', () => {
+  it('should match patterns on added lines of a patch', () => {
+    const result = evaluateCode('@@ -1 +1,2 @@\n function run() {\n+  debugger;', 'src/run.js');
+
+    expect(result.patterns).toContain('Debugger statements');
+  });
+
+  it('should ignore removed lines', () => {
+    const result = evaluateCode('@@ -1,2 +1 @@\n-  debugger;\n-  // TODO: remove\n+run();', 'a.js');
+
+    expect(result.patterns).not.toContain('Debugger statements');
+    expect(result.patterns).not.toContain('TODO/FIXME comments');
+  });
+});
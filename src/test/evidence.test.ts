@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { formatEvidenceLocation, groundEvidence } from '../evidence';
+import type { IndicatorEvidence } from '../llm-evaluator';
+
+const file = {
+  filename: 'src/app.js',
+  patch: [
+    '@@ -10,2 +10,4 @@ function start() {',
+    '   init();',
+    '-  run();',
+    '+  console.log("here");',
+    '+  run(true);',
+    '+  // TODO: remove the flag',
+  ].join('\n'),
+};
+
+const evidence = (partial: Partial<IndicatorEvidence>): IndicatorEvidence => ({
+  indicator: 'debug-statements',
+  filename: 'src/app.js',
+  startLine: 11,
+  endLine: 11,
+  snippet: 'console.log("here");',
+  direction: 'human',
+  ...partial,
+});
+
+describe('groundEvidence', () => {
+  it('should keep evidence that quotes the cited lines', () => {
+    const cited = evidence({
+      startLine: 11,
+      endLine: 12,
+      snippet: 'console.log("here");\n run(true);',
+    });
+
+    expect(groundEvidence([cited], [file])).toEqual({ kept: [cited], dropped: 0 });
+  });
+
+  it('should move a snippet to where it actually is', () => {
+    const { kept } = groundEvidence([evidence({ startLine: 40, endLine: 40 })], [file]);
+
+    expect(kept).toEqual([evidence({ startLine: 11, endLine: 11 })]);
+  });
+
+  it('should drop snippets that are not in the patch or only in removed lines', () => {
+    const { kept, dropped } = groundEvidence(
+      [evidence({ snippet: 'process.exit(1);' }), evidence({ snippet: 'run();' })],
+      [file]
+    );
+
+    expect(kept).toEqual([]);
+    expect(dropped).toBe(2);
+  });
+
+  it('should drop evidence for files that are not part of the judgment', () => {
+    const other = { filename: 'src/other.js', patch: '+other();' };
+
+    const { kept } = groundEvidence(
+      [evidence({}), evidence({ filename: 'src/missing.js', snippet: 'other();' })],
+      [file, other]
+    );
+
+    expect(kept).toEqual([evidence({})]);
+  });
+});
+
+describe('formatEvidenceLocation', () => {
+  it('should show a single line or a range', () => {
+    expect(formatEvidenceLocation(evidence({}))).toBe('src/app.js:11');
+    expect(formatEvidenceLocation(evidence({ endLine: 13 }))).toBe('src/app.js:11-13');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { parseGitAttributes, selectFiles } from '../file-selection';
+import type { PullRequestFile } from '../pull-request-changes';
+
+const changed = (filename: string, status = 'modified'): PullRequestFile => ({
+  filename,
+  status,
+  patch: '@@ -0,0 +1 @@\n+x',
+});
+
+describe('selectFiles', () => {
+  it('should select code files and workflows by default', () => {
+    const { files, skipped } = selectFiles([
+      changed('src/app.ts'),
+      changed('lib/util.mjs'),
+      changed('.github/workflows/ci.yml'),
+      changed('config/settings.yml'),
+      changed('README.md'),
+    ]);
+
+    expect(files.map((file) => file.filename)).toEqual([
+      'src/app.ts',
+      'lib/util.mjs',
+      '.github/workflows/ci.yml',
+    ]);
+    expect(skipped).toEqual([
+      { filename: 'config/settings.yml', reason: 'unselected-language' },
+      { filename: 'README.md', reason: 'unselected-language' },
+    ]);
+  });
+
+  it('should skip lockfiles, minified bundles and build output', () => {
+    const { files, skipped } = selectFiles([
+      changed('package-lock.json'),
+      changed('packages/api/pnpm-lock.yaml'),
+      changed('public/vendor.min.js'),
+      changed('dist/index.js'),
+      changed('packages/ui/dist/index.js'),
+    ]);
+
+    expect(files).toEqual([]);
+    expect(skipped.map((file) => file.reason)).toEqual([
+      'lockfile',
+      'lockfile',
+      'minified',
+      'build-output',
+      'build-output',
+    ]);
+  });
+
+  it('should skip removed files and files without a patch', () => {
+    const { skipped } = selectFiles([
+      changed('src/old.ts', 'removed'),
+      { filename: 'assets/logo.ts', status: 'added' },
+    ]);
+
+    expect(skipped).toEqual([
+      { filename: 'src/old.ts', reason: 'removed' },
+      { filename: 'assets/logo.ts', reason: 'no-patch' },
+    ]);
+  });
+
+  it('should apply the include, exclude and language filters', () => {
+    const { files, skipped } = selectFiles(
+      [
+        changed('src/app.ts'),
+        changed('src/generated/api.ts'),
+        changed('scripts/build.ts'),
+        changed('src/settings.json'),
+        changed('src/app.py'),
+      ],
+      {
+        paths: {
+          include: ['src/**'],
+          exclude: ['src/generated/**'],
+          languages: ['typescript', 'config'],
+        },
+      }
+    );
+
+    expect(files.map((file) => file.filename)).toEqual(['src/app.ts', 'src/settings.json']);
+    expect(skipped).toEqual([
+      { filename: 'src/generated/api.ts', reason: 'excluded' },
+      { filename: 'scripts/build.ts', reason: 'not-included' },
+      { filename: 'src/app.py', reason: 'unselected-language' },
+    ]);
+  });
+
+  it('should honor linguist attributes from .gitattributes', () => {
+    const gitAttributes = parseGitAttributes(`
+# Generated clients
+src/client/** linguist-generated
+third_party/** linguist-vendored=true
+src/client/handwritten.ts -linguist-generated
+`);
+
+    const { files, skipped } = selectFiles(
+      [
+        changed('src/client/api.ts'),
+        changed('src/client/handwritten.ts'),
+        changed('third_party/lib/index.js'),
+      ],
+      { gitAttributes }
+    );
+
+    expect(files.map((file) => file.filename)).toEqual(['src/client/handwritten.ts']);
+    expect(skipped).toEqual([
+      { filename: 'src/client/api.ts', reason: 'generated' },
+      { filename: 'third_party/lib/index.js', reason: 'vendored' },
+    ]);
+  });
+});
+
+describe('parseGitAttributes', () => {
+  it('should keep only lines setting linguist attributes', () => {
+    expect(
+      parseGitAttributes(
+        '*.png binary\n*.pb.go linguist-generated\nvendor/** linguist-vendored=false'
+      )
+    ).toEqual([
+      { pattern: '*.pb.go', generated: true },
+      { pattern: 'vendor/**', vendored: false },
+    ]);
+  });
+});
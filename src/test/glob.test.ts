@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { matchesAnyGlob, matchesGlob } from '../glob';
+
+describe('matchesGlob', () => {
+  it('should keep single stars within a directory', () => {
+    expect(matchesGlob('src/app.ts', 'src/*.ts')).toBe(true);
+    expect(matchesGlob('src/lib/app.ts', 'src/*.ts')).toBe(false);
+  });
+
+  it('should let double stars span directories, including none', () => {
+    expect(matchesGlob('src/app.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/lib/deep/app.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('lib/app.ts', 'src/**')).toBe(false);
+  });
+
+  it('should match patterns without a slash in any directory', () => {
+    expect(matchesGlob('app.min.js', '*.min.js')).toBe(true);
+    expect(matchesGlob('public/vendor/app.min.js', '*.min.js')).toBe(true);
+  });
+
+  it('should match everything below a directory pattern', () => {
+    expect(matchesGlob('dist/index.js', 'dist/')).toBe(true);
+    expect(matchesGlob('src/dist.ts', 'dist/')).toBe(false);
+  });
+
+  it('should expand braces and treat other characters literally', () => {
+    expect(matchesGlob('src/app.tsx', 'src/*.{ts,tsx}')).toBe(true);
+    expect(matchesGlob('src/app.js', 'src/*.{ts,tsx}')).toBe(false);
+    expect(matchesGlob('srcXapp.ts', 'src.app.ts')).toBe(false);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('should match when any pattern does', () => {
+    expect(matchesAnyGlob('docs/guide.md', ['*.ts', 'docs/**'])).toBe(true);
+    expect(matchesAnyGlob('docs/guide.md', [])).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { HeuristicEvaluator, isHeuristicIndicator } from '../heuristic-evaluator';
+
+const humanPatch = '+var foo = 1;\n+console.log("here");\n+// TODO: clean this up';
+
+describe('HeuristicEvaluator', () => {
+  const evaluator = new HeuristicEvaluator();
+
+  it('should report matched patterns as heuristic indicators', () => {
+    const result = evaluator.evaluateFile('src/app.js', humanPatch);
+
+    expect(result.isHumanLike).toBe(true);
+    expect(result.indicators.every(isHeuristicIndicator)).toBe(true);
+    expect(result.indicators).toContain('heuristic:human-todo-fixme-comments');
+  });
+
+  it('should label AI patterns separately from human ones', () => {
+    const result = evaluator.evaluateFile(
+      'src/types.ts',
+      '/**\n * User record.\n */\nexport interface User {\n  id: string;\n}\nimport type { Foo } from "./foo";'
+    );
+
+    expect(result.indicators).toContain('heuristic:ai-exported-typescript-types');
+  });
+
+  it('should weight the PR verdict by patch size', async () => {
+    const { overallResult, fileResults } = await evaluator.evaluatePullRequest([
+      {
+        filename: 'src/big.js',
+        patch: Array.from({ length: 5 }, () => humanPatch).join('\n'),
+      },
+      { filename: 'src/small.ts', patch: 'export type Id = string;' },
+    ]);
+
+    expect(fileResults[0].result.isHumanLike).toBe(true);
+    expect(overallResult.isHumanLike).toBe(true);
+    expect(overallResult.reasoning).toContain('Heuristic analysis');
+  });
+});
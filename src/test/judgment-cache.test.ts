@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createJudgmentCacheKey, FileSystemJudgmentCache } from '../judgment-cache';
+
+const keyInput = {
+  model: 'openai:gpt-4o-mini',
+  promptVersion: '1',
+  filename: 'src/app.ts',
+  patch: '+const x = 1;',
+  context: '<pr_context>\nTitle: Add feature\n</pr_context>',
+};
+
+const result = {
+  isHumanLike: false,
+  confidence: 90,
+  reasoning: 'Consistent AI-generated patterns',
+  indicators: [],
+};
+
+describe('createJudgmentCacheKey', () => {
+  it('should change with every keyed field', () => {
+    const base = createJudgmentCacheKey(keyInput);
+
+    expect(createJudgmentCacheKey({ ...keyInput })).toBe(base);
+    expect(createJudgmentCacheKey({ ...keyInput, model: 'anthropic:claude' })).not.toBe(base);
+    expect(createJudgmentCacheKey({ ...keyInput, promptVersion: '2' })).not.toBe(base);
+    expect(createJudgmentCacheKey({ ...keyInput, filename: 'src/other.ts' })).not.toBe(base);
+    expect(createJudgmentCacheKey({ ...keyInput, patch: '+const x = 2;' })).not.toBe(base);
+    expect(
+      createJudgmentCacheKey({ ...keyInput, context: keyInput.context.replace('Add', 'Fix') })
+    ).not.toBe(base);
+  });
+});
+
+describe('FileSystemJudgmentCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'onlyrobots-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip judgments', async () => {
+    const cache = new FileSystemJudgmentCache(directory);
+
+    await cache.set('abc', result);
+
+    expect(await cache.get('abc')).toEqual(result);
+    expect(await cache.get('missing')).toBeUndefined();
+    expect(cache.changes).toBe(1);
+  });
+
+  it('should not count storing the same judgment again as a change', async () => {
+    const cache = new FileSystemJudgmentCache(directory);
+
+    await cache.set('abc', result);
+    await cache.set('abc', result);
+    expect(cache.changes).toBe(1);
+
+    await cache.set('abc', { ...result, confidence: 70 });
+    expect(cache.changes).toBe(2);
+  });
+
+  it('should treat corrupt entries as misses', async () => {
+    const cache = new FileSystemJudgmentCache(directory);
+    await fs.writeFile(path.join(directory, 'abc.json'), '{not json');
+
+    expect(await cache.get('abc')).toBeUndefined();
+  });
+
+  it('should prune entries older than the max age', async () => {
+    const cache = new FileSystemJudgmentCache(directory);
+    await cache.set('fresh', result);
+    await fs.writeFile(
+      path.join(directory, 'stale.json'),
+      JSON.stringify({ storedAt: Date.now() - 60_000, result })
+    );
+
+    expect(await cache.prune(30_000)).toBe(1);
+    expect(await cache.get('fresh')).toEqual(result);
+    expect(await cache.get('stale')).toBeUndefined();
+  });
+});
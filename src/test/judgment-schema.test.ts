@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { parseJudgment, validateJudgment, validatePRJudgment } from '../judgment-schema';
+
+describe('validateJudgment', () => {
+  it('should accept a well-formed judgment', () => {
+    const result = validateJudgment({
+      isHumanLike: true,
+      confidence: 72,
+      reasoning: 'Debug statements left in',
+      indicators: ['debug-statements'],
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        isHumanLike: true,
+        confidence: 72,
+        reasoning: 'Debug statements left in',
+        indicators: ['debug-statements'],
+      },
+    });
+  });
+
+  it('should reject confidence outside 0-100', () => {
+    const result = validateJudgment({
+      isHumanLike: false,
+      confidence: 140,
+      reasoning: 'Very sure',
+      indicators: [],
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual(['confidence must be between 0 and 100 (got 140)']);
+  });
+
+  it('should reject non-string indicators and missing fields', () => {
+    const result = validateJudgment({ confidence: '80', indicators: [{ name: 'x' }] });
+
+    expect(!result.ok && result.errors).toEqual([
+      'isHumanLike must be a boolean',
+      'confidence must be a number',
+      'reasoning must be a non-empty string',
+      'indicators must be an array of strings',
+    ]);
+  });
+
+  it('should accept evidence and report malformed entries by index', () => {
+    const base = { isHumanLike: true, confidence: 70, reasoning: 'Debug output', indicators: [] };
+    const evidence = {
+      indicator: 'debug-statements',
+      filename: 'src/app.ts',
+      startLine: 3,
+      endLine: 3,
+      snippet: 'console.log("here");',
+      direction: 'human',
+    };
+
+    const valid = validateJudgment({ ...base, evidence: [evidence] });
+    const invalid = validateJudgment({
+      ...base,
+      evidence: [evidence, { ...evidence, startLine: 0, endLine: 2.5, direction: 'robot' }],
+    });
+
+    expect(valid.ok && valid.value.evidence).toEqual([evidence]);
+    expect(!invalid.ok && invalid.errors).toEqual([
+      'evidence[1]: startLine must be a positive integer',
+      'evidence[1]: endLine must be a positive integer',
+      'evidence[1]: direction must be "human" or "ai"',
+    ]);
+  });
+});
+
+describe('parseJudgment', () => {
+  it('should unwrap JSON surrounded by a code fence', () => {
+    const result = parseJudgment(
+      'Here is my analysis:\n```json\n{"isHumanLike": false, "confidence": 91, "reasoning": "Claude Code signature", "indicators": ["ai-tool-attribution"]}\n```'
+    );
+
+    expect(result.ok && result.value.confidence).toBe(91);
+  });
+
+  it('should not guess a verdict from prose', () => {
+    const result = parseJudgment('This looks human-written with confidence: 80');
+
+    expect(result).toEqual({ ok: false, errors: ['response is not valid JSON'] });
+  });
+});
+
+describe('validatePRJudgment', () => {
+  const verdict = {
+    isHumanLike: false,
+    confidence: 85,
+    reasoning: 'Uniform structure',
+    indicators: [],
+  };
+
+  it('should accept an overall verdict with per-file verdicts', () => {
+    const result = validatePRJudgment({
+      overall: verdict,
+      files: [{ filename: 'src/app.ts', ...verdict }],
+    });
+
+    expect(result.ok && result.value.files).toEqual([{ filename: 'src/app.ts', result: verdict }]);
+  });
+
+  it('should prefix errors with the failing entry', () => {
+    const result = validatePRJudgment({
+      overall: { ...verdict, confidence: 101 },
+      files: [{ ...verdict, isHumanLike: 'no' }],
+    });
+
+    expect(!result.ok && result.errors).toEqual([
+      'overall: confidence must be between 0 and 100 (got 101)',
+      'files[0]: filename must be a non-empty string',
+      'files[0]: isHumanLike must be a boolean',
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  AnthropicProvider,
+  AzureOpenAIProvider,
+  createLLMProvider,
+  MissingAPIKeyError,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+} from '../llm-provider';
+
+describe('createLLMProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should default to OpenAI with gpt-4o-mini', () => {
+    const provider = createLLMProvider({ apiKey: 'sk-test' });
+
+    expect(provider).toBeInstanceOf(OpenAIProvider);
+    expect(provider.name).toBe('openai');
+    expect(provider.model).toBe('gpt-4o-mini');
+  });
+
+  it('should create an Anthropic provider with a custom model', () => {
+    const provider = createLLMProvider({
+      provider: 'anthropic',
+      apiKey: 'sk-ant-test',
+      model: 'claude-sonnet-4-0',
+    });
+
+    expect(provider).toBeInstanceOf(AnthropicProvider);
+    expect(provider.model).toBe('claude-sonnet-4-0');
+  });
+
+  it('should create an Azure provider using the model as deployment name', () => {
+    const provider = createLLMProvider({
+      provider: 'azure',
+      apiKey: 'azure-key',
+      model: 'judge-deployment',
+      baseUrl: 'https://example.openai.azure.com/',
+    });
+
+    expect(provider).toBeInstanceOf(AzureOpenAIProvider);
+    expect(provider.model).toBe('judge-deployment');
+  });
+
+  it('should create an OpenAI-compatible provider without an API key', () => {
+    const provider = createLLMProvider({
+      provider: 'openai-compatible',
+      model: 'llama3.1',
+      baseUrl: 'http://localhost:11434/v1',
+    });
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.name).toBe('openai-compatible');
+  });
+
+  it('should only fall back to the OpenAI key for the openai provider', () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    vi.stubEnv('OPENAI_COMPATIBLE_API_KEY', '');
+    const openai = createLLMProvider({ openaiApiKey: 'sk-openai' });
+    const compatible = createLLMProvider({
+      provider: 'openai-compatible',
+      openaiApiKey: 'sk-openai',
+      model: 'llama3.1',
+      baseUrl: 'https://llm.example.com/v1',
+    });
+
+    expect(openai).toBeInstanceOf(OpenAIProvider);
+    expect((compatible as unknown as { client: { apiKey: string } }).client.apiKey).toBe(
+      'not-needed'
+    );
+    expect(() => createLLMProvider({ provider: 'anthropic', openaiApiKey: 'sk-openai' })).toThrow(
+      MissingAPIKeyError
+    );
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createLLMProvider({ provider: 'bard', apiKey: 'x' })).toThrow(
+      'Unknown LLM provider "bard"'
+    );
+  });
+
+  it('should require a base URL and model for OpenAI-compatible servers', () => {
+    expect(() => createLLMProvider({ provider: 'openai-compatible', model: 'llama3.1' })).toThrow(
+      'require a base URL and a model'
+    );
+  });
+});
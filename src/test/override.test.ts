@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canOverride,
+  findLabelOverride,
+  overrideCheckRun,
+  parseCommand,
+  withdrawFeedback,
+} from '../override';
+import { COMMENT_MARKER, parseStickyComment } from '../pr-comment';
+import { REVIEW_MARKER } from '../pr-review';
+import { BOT_LOGIN, FakeComments, FakeOverrides, FakeReviews } from './utils/fake-octokit';
+
+const issue = { owner: 'o', repo: 'r', issue_number: 5 };
+
+describe('parseCommand', () => {
+  it('should parse override reasons and rechecks', () => {
+    expect(parseCommand('/onlyrobots override  generated by our codegen\nsee #12')).toEqual({
+      name: 'override',
+      reason: 'generated by our codegen\nsee #12',
+    });
+    expect(parseCommand('  /onlyrobots recheck\n')).toEqual({ name: 'recheck' });
+  });
+
+  it('should ignore comments that are not commands', () => {
+    expect(parseCommand('Looks good! /onlyrobots recheck')).toBeUndefined();
+    expect(parseCommand('/onlyrobotsrecheck')).toBeUndefined();
+  });
+
+  it('should log and ignore unknown commands', () => {
+    const logged: string[] = [];
+
+    expect(parseCommand('/onlyrobots approve', (message) => logged.push(message))).toBeUndefined();
+    expect(logged).toEqual([
+      'Ignoring unknown command "/onlyrobots approve" (expected one of: override, recheck)',
+    ]);
+  });
+
+  it('should leave rejecting overrides without a reason to the caller', () => {
+    expect(parseCommand('/onlyrobots override')).toEqual({ name: 'override' });
+  });
+});
+
+describe('canOverride', () => {
+  it('should allow write, maintain and admin permissions only', async () => {
+    const client = new FakeOverrides({ alice: 'write', carol: 'admin', dave: 'read' });
+    const repository = { owner: 'o', repo: 'r' };
+
+    expect(await canOverride(client, repository, 'alice')).toBe(true);
+    expect(await canOverride(client, repository, 'carol')).toBe(true);
+    expect(await canOverride(client, repository, 'dave')).toBe(false);
+    expect(await canOverride(client, repository, 'mallory')).toBe(false);
+  });
+});
+
+describe('findLabelOverride', () => {
+  it('should credit whoever added the label last', async () => {
+    const client = new FakeOverrides({ alice: 'maintain' }, [], ['dave', 'alice']);
+
+    expect(await findLabelOverride(client, issue, 'onlyrobots:approved', client.warn)).toEqual({
+      actor: 'alice',
+      reason: 'added the `onlyrobots:approved` label',
+    });
+  });
+
+  it('should ignore a label added without write access', async () => {
+    const client = new FakeOverrides({ dave: 'triage' }, [], ['dave']);
+
+    expect(
+      await findLabelOverride(client, issue, 'onlyrobots:approved', client.warn)
+    ).toBeUndefined();
+    expect(client.warnings).toEqual([
+      "Ignoring the onlyrobots:approved label: @dave doesn't have write access to the repository",
+    ]);
+  });
+});
+
+describe('overrideCheckRun', () => {
+  const ref = { owner: 'o', repo: 'r', head_sha: 'abc123' };
+  const override = { actor: 'alice', reason: 'generated by our codegen' };
+
+  it('should re-conclude the newest run with an audit note', async () => {
+    const client = new FakeOverrides({}, [
+      { id: 3, summary: 'Older verdict' },
+      { id: 9, summary: 'Latest verdict' },
+    ]);
+
+    expect(await overrideCheckRun(client, ref, 'Only Robots', override)).toBe(true);
+
+    expect(client.updates).toEqual([
+      {
+        owner: 'o',
+        repo: 'r',
+        check_run_id: 9,
+        conclusion: 'success',
+        output: {
+          title: 'Overridden by @alice',
+          summary: '> ✅ **Overridden by @alice:** generated by our codegen\n\nLatest verdict',
+          text: 'Details',
+        },
+      },
+    ]);
+  });
+
+  it('should report when there is no run to override', async () => {
+    const client = new FakeOverrides();
+
+    expect(await overrideCheckRun(client, ref, 'Only Robots', override)).toBe(false);
+    expect(client.updates).toEqual([]);
+  });
+});
+
+describe('withdrawFeedback', () => {
+  it('should resolve the comment and dismiss the blocking review', async () => {
+    const comments = new FakeComments([
+      { id: 1, body: `${COMMENT_MARKER}\nHuman-written code detected`, user: { login: BOT_LOGIN } },
+    ]);
+    const reviews = new FakeReviews([
+      {
+        id: 4,
+        state: 'CHANGES_REQUESTED',
+        body: `${REVIEW_MARKER}\nHuman-written`,
+        user: { login: BOT_LOGIN },
+      },
+      { id: 5, state: 'CHANGES_REQUESTED', body: 'Please add tests', user: { login: 'bob' } },
+    ]);
+    const pullRequest = { owner: 'o', repo: 'r', pull_number: 5 };
+    const override = { actor: 'alice', reason: 'generated by our codegen' };
+
+    expect(
+      await withdrawFeedback(
+        { rest: { ...comments.rest, ...reviews.rest } },
+        pullRequest,
+        BOT_LOGIN,
+        override,
+        'update',
+        'abc1234def'
+      )
+    ).toEqual({
+      comment: 'updated',
+      dismissed: 1,
+    });
+
+    const { current, history } = parseStickyComment(comments.comments[0].body);
+    expect(current).toContain('## ✅ Resolved — overridden');
+    expect(current).toContain(
+      '@alice overrode the verdict on commit abc1234: generated by our codegen'
+    );
+    expect(history).toEqual(['Human-written code detected']);
+    expect(reviews.dismissed).toEqual([
+      {
+        review_id: 4,
+        message: '@alice overrode the Only Robots verdict: generated by our codegen',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { chunkPatch, sampleWindows } from '../patch-chunker';
+import { estimateTokens } from '../pr-packing';
+
+const hunk = (start: number, lines: number) =>
+  [
+    `@@ -${start},0 +${start},${lines} @@`,
+    ...Array.from({ length: lines }, (_, i) => `+const value${start + i} = ${i};`),
+  ].join('\n');
+
+describe('chunkPatch', () => {
+  it('should keep a small patch in one window', () => {
+    const patch = `${hunk(1, 3)}\n${hunk(20, 2)}`;
+
+    const windows = chunkPatch(patch, 1000);
+
+    expect(windows).toEqual([{ patch, addedLines: 5, index: 0 }]);
+  });
+
+  it('should split at hunk boundaries under the token limit', () => {
+    const hunks = [hunk(1, 10), hunk(100, 10), hunk(200, 10)];
+
+    const windows = chunkPatch(hunks.join('\n'), Math.max(...hunks.map(estimateTokens)) + 5);
+
+    expect(windows.map((w) => w.patch)).toEqual(hunks);
+    expect(windows.map((w) => w.addedLines)).toEqual([10, 10, 10]);
+  });
+
+  it('should cut an oversized hunk into pieces with their own headers', () => {
+    const windows = chunkPatch(hunk(1, 200), 500);
+
+    expect(windows.length).toBeGreaterThan(1);
+    let nextLine = 1;
+    for (const window of windows) {
+      expect(window.patch.startsWith(`@@ -1,0 +${nextLine},${window.addedLines} @@`)).toBe(true);
+      expect(window.patch).toContain(`+const value${nextLine} = `);
+      expect(estimateTokens(window.patch)).toBeLessThanOrEqual(500);
+      nextLine += window.addedLines;
+    }
+    expect(windows.reduce((sum, w) => sum + w.addedLines, 0)).toBe(200);
+  });
+
+  it('should place a truncated removed line after the added lines before it', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map((name) => name.repeat(250));
+    const windows = chunkPatch(`@@ -1,1 +1,3 @@\n+${a}\n-${'x'.repeat(2000)}\n+${b}\n+${c}`, 100);
+
+    expect(windows.map((w) => w.patch.split('\n')[0])).toEqual([
+      '@@ -1,0 +1,1 @@',
+      '@@ -1,1 +2,0 @@',
+      '@@ -2,0 +2,1 @@',
+      '@@ -2,0 +3,1 @@',
+    ]);
+  });
+
+  it('should truncate single lines longer than a window', () => {
+    const windows = chunkPatch(`@@ -1 +1 @@\n+${'x'.repeat(10_000)}`, 100);
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0].patch).toContain('(line truncated)');
+    expect(estimateTokens(windows[0].patch)).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('sampleWindows', () => {
+  it('should spread the sample across the patch', () => {
+    const windows = Array.from({ length: 10 }, (_, index) => ({ patch: '', addedLines: 1, index }));
+
+    expect(sampleWindows(windows, 4).map((w) => w.index)).toEqual([0, 3, 6, 9]);
+    expect(sampleWindows(windows, 20)).toBe(windows);
+  });
+});
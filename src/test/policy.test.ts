@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { LLMEvaluationResult } from '../llm-evaluator';
+import { applyPolicy, flaggedDirection, isFlagged, isPolicy } from '../policy';
+
+const judgment = (isHumanLike: boolean): LLMEvaluationResult => ({
+  isHumanLike,
+  confidence: 90,
+  reasoning: 'Reasoning',
+  indicators: [],
+});
+
+describe('applyPolicy', () => {
+  it('should fail human verdicts under robots-only and require-attribution', () => {
+    for (const policy of ['robots-only', 'require-attribution'] as const) {
+      expect(applyPolicy(policy, judgment(true))).toEqual({
+        violated: true,
+        conclusion: 'failure',
+        result: 'failed',
+      });
+      expect(applyPolicy(policy, judgment(false)).result).toBe('passed');
+    }
+  });
+
+  it('should fail AI verdicts under humans-only', () => {
+    expect(applyPolicy('humans-only', judgment(false))).toEqual({
+      violated: true,
+      conclusion: 'failure',
+      result: 'failed',
+    });
+    expect(applyPolicy('humans-only', judgment(true))).toEqual({
+      violated: false,
+      conclusion: 'success',
+      result: 'passed',
+    });
+  });
+
+  it('should only report verdicts under report-only', () => {
+    for (const isHumanLike of [true, false]) {
+      expect(applyPolicy('report-only', judgment(isHumanLike))).toEqual({
+        violated: false,
+        conclusion: 'neutral',
+        result: 'reported',
+      });
+    }
+  });
+});
+
+describe('isFlagged', () => {
+  it('should flag files with the authorship the policy flags', () => {
+    expect(flaggedDirection('robots-only')).toBe('human');
+    expect(isFlagged(judgment(true), 'robots-only')).toBe(true);
+    expect(isFlagged(judgment(true), 'humans-only')).toBe(false);
+    expect(isFlagged(judgment(false), 'humans-only')).toBe(true);
+  });
+
+  it('should flag no file under require-attribution or report-only', () => {
+    expect(isFlagged(judgment(true), 'require-attribution')).toBe(false);
+    expect(isFlagged(judgment(true), 'report-only')).toBe(false);
+  });
+
+  it('should not flag unjudged files', () => {
+    expect(isFlagged({ ...judgment(true), status: 'errored' }, 'robots-only')).toBe(false);
+  });
+});
+
+describe('isPolicy', () => {
+  it('should recognize policies', () => {
+    expect(isPolicy('humans-only')).toBe(true);
+    expect(isPolicy('no-humans')).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMMENT_MARKER,
+  fetchBotLogin,
+  parseStickyComment,
+  renderStickyComment,
+  resolveStickyComment,
+  upsertStickyComment,
+} from '../pr-comment';
+import { BOT_LOGIN, FakeComments } from './utils/fake-octokit';
+
+const issue = { owner: 'o', repo: 'r', issue_number: 5 };
+
+// Starts out with one comment that isn't ours
+const comments = () => new FakeComments([{ id: 1, body: 'Nice work!', user: { login: 'alice' } }]);
+
+const sticky = (client: FakeComments) =>
+  client.comments.filter((c) => c.body.includes(COMMENT_MARKER));
+
+describe('sticky comment', () => {
+  it('should create one comment and edit it on later runs', async () => {
+    const client = comments();
+
+    expect(await upsertStickyComment(client, issue, BOT_LOGIN, 'First verdict', 'aaaaaaa1')).toBe(
+      'created'
+    );
+    expect(await upsertStickyComment(client, issue, BOT_LOGIN, 'Second verdict', 'bbbbbbb2')).toBe(
+      'updated'
+    );
+
+    expect(sticky(client)).toHaveLength(1);
+    const { current, history } = parseStickyComment(sticky(client)[0].body);
+    expect(current).toContain('Second verdict');
+    expect(current).toContain('commit bbbbbbb');
+    expect(history).toHaveLength(1);
+    expect(history[0]).toContain('First verdict');
+    expect(sticky(client)[0].body).toContain('<details>');
+  });
+
+  it('should resolve the comment once, keeping the flagged verdict in the history', async () => {
+    const client = comments();
+    await upsertStickyComment(client, issue, BOT_LOGIN, 'Flagged', 'aaaaaaa1');
+
+    expect(await resolveStickyComment(client, issue, BOT_LOGIN, 'update', 'ccccccc3')).toBe(
+      'updated'
+    );
+    expect(await resolveStickyComment(client, issue, BOT_LOGIN, 'update', 'ddddddd4')).toBe('none');
+
+    const { current, history } = parseStickyComment(sticky(client)[0].body);
+    expect(current).toContain('Resolved — now passing');
+    expect(history.map((entry) => entry.includes('Flagged'))).toEqual([true]);
+  });
+
+  it('should delete the comment when configured to', async () => {
+    const client = comments();
+    await upsertStickyComment(client, issue, BOT_LOGIN, 'Flagged', 'aaaaaaa1');
+
+    expect(await resolveStickyComment(client, issue, BOT_LOGIN, 'delete', 'ccccccc3')).toBe(
+      'deleted'
+    );
+    expect(sticky(client)).toEqual([]);
+    expect(client.comments).toHaveLength(1);
+  });
+
+  it('should find its comment past the first page of comments', async () => {
+    const client = comments();
+    client.addComments(150, 'alice');
+    await upsertStickyComment(client, issue, BOT_LOGIN, 'First verdict', 'aaaaaaa1');
+
+    expect(await upsertStickyComment(client, issue, BOT_LOGIN, 'Second verdict', 'bbbbbbb2')).toBe(
+      'updated'
+    );
+    expect(sticky(client)).toHaveLength(1);
+  });
+
+  it("should leave others' comments with the marker alone", async () => {
+    const client = comments();
+    client.addComments(1, 'mallory', `${COMMENT_MARKER}\nPasted`);
+
+    expect(await resolveStickyComment(client, issue, BOT_LOGIN, 'delete', 'ccccccc3')).toBe('none');
+    expect(await upsertStickyComment(client, issue, BOT_LOGIN, 'Flagged', 'aaaaaaa1')).toBe(
+      'created'
+    );
+    expect(sticky(client).map((c) => c.user.login)).toEqual(['mallory', BOT_LOGIN]);
+    expect(sticky(client)[0].body).toContain('Pasted');
+  });
+
+  it('should do nothing on a passing PR it never commented on', async () => {
+    const client = comments();
+
+    expect(await resolveStickyComment(client, issue, BOT_LOGIN, 'update', 'ccccccc3')).toBe('none');
+  });
+
+  it('should keep only the most recent history entries', () => {
+    const history = Array.from({ length: 8 }, (_, i) => `Run ${i}`);
+
+    const parsed = parseStickyComment(renderStickyComment('Latest', history));
+
+    expect(parsed.current).toBe('Latest');
+    expect(parsed.history).toEqual(['Run 0', 'Run 1', 'Run 2', 'Run 3', 'Run 4']);
+  });
+});
+
+describe('fetchBotLogin', () => {
+  it("should use the token's login, or github-actions[bot] when it can't be looked up", async () => {
+    const user = {
+      rest: { users: { getAuthenticated: async () => ({ data: { login: 'ci-bot' } }) } },
+    };
+    const installation = {
+      rest: {
+        users: {
+          getAuthenticated: async () => {
+            throw Object.assign(new Error('Resource not accessible by integration'), {
+              status: 403,
+            });
+          },
+        },
+      },
+    };
+
+    expect(await fetchBotLogin(user)).toBe('ci-bot');
+    expect(await fetchBotLogin(installation)).toBe('github-actions[bot]');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { countChangedLines, estimateTokens, packPullRequest } from '../pr-packing';
+
+const patchOfSize = (chars: number) => `+${'x'.repeat(chars - 1)}`;
+
+describe('packPullRequest', () => {
+  it('should include every file when the budget allows', () => {
+    const files = [
+      { filename: 'src/a.ts', patch: '+const a = 1;' },
+      { filename: 'src/b.ts', patch: '+const b = 2;' },
+    ];
+
+    const packed = packPullRequest(files, 1000);
+
+    expect(packed.included.map((f) => f.filename)).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(packed.summarized).toEqual([]);
+    expect(packed.dropped).toEqual([]);
+  });
+
+  it('should summarize the largest files first', () => {
+    const files = [
+      { filename: 'src/large.ts', patch: patchOfSize(2000) },
+      { filename: 'src/small.ts', patch: patchOfSize(200) },
+    ];
+
+    const packed = packPullRequest(files, 300);
+
+    expect(packed.included.map((f) => f.filename)).toEqual(['src/small.ts']);
+    expect(packed.summarized).toEqual([
+      { filename: 'src/large.ts', additions: 1, deletions: 0, reason: 'exceeds token budget' },
+    ]);
+  });
+
+  it('should prefer code over lockfiles and pure deletions', () => {
+    const files = [
+      { filename: 'pnpm-lock.yaml', patch: patchOfSize(100) },
+      { filename: 'src/old.ts', patch: '-const removed = true;' },
+      { filename: 'src/new.ts', patch: patchOfSize(400) },
+    ];
+
+    const packed = packPullRequest(files, 150);
+
+    expect(packed.included.map((f) => f.filename)).toEqual(['src/new.ts']);
+    expect(packed.summarized.map((f) => f.reason)).toEqual(['low information', 'low information']);
+  });
+
+  it('should drop files when not even their summaries fit', () => {
+    const files = Array.from({ length: 10 }, (_, i) => ({
+      filename: `src/file-${i}.ts`,
+      patch: patchOfSize(1000 + i),
+    }));
+
+    const packed = packPullRequest(files, 50);
+
+    expect(packed.included).toEqual([]);
+    expect(packed.dropped.length).toBeGreaterThan(0);
+    expect(packed.dropped[0].filename).toBe('src/file-9.ts');
+    expect(packed.estimatedTokens).toBeLessThanOrEqual(50);
+  });
+});
+
+describe('countChangedLines', () => {
+  it('should ignore file headers', () => {
+    expect(countChangedLines('--- a/x\n+++ b/x\n@@ -1 +1 @@\n-old\n+new\n+more')).toEqual({
+      additions: 2,
+      deletions: 1,
+    });
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should round up to whole tokens', () => {
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import type { FileAnalysis } from '../llm-evaluator';
+import {
+  buildReviewComments,
+  dismissReviews,
+  isFeedbackMode,
+  postReview,
+  REVIEW_MARKER,
+} from '../pr-review';
+import { builtInTemplates } from '../templates';
+import { evaluationResult } from './utils/evaluation-result';
+import { FakeReviews } from './utils/fake-octokit';
+
+const patch = [
+  '@@ -1,2 +1,4 @@',
+  ' start();',
+  '+console.log("here");',
+  '+// TODO: fix this',
+  ' stop();',
+  '@@ -20 +22,2 @@',
+  ' end();',
+  '+debugger;',
+].join('\n');
+
+const humanVerdict = {
+  isHumanLike: true,
+  confidence: 85,
+  reasoning: 'Debug leftovers',
+  indicators: ['debug-statements'],
+};
+
+const cite = (startLine: number, endLine: number) => ({
+  indicator: 'debug-statements',
+  filename: 'src/app.js',
+  startLine,
+  endLine,
+  snippet: 'x',
+  direction: 'human' as const,
+});
+
+describe('buildReviewComments', () => {
+  it('should comment on cited lines, as a range only within one hunk', () => {
+    const files: FileAnalysis[] = [
+      {
+        filename: 'src/app.js',
+        patch,
+        result: evaluationResult({
+          ...humanVerdict,
+          evidence: [cite(2, 3), cite(3, 23), { ...cite(4, 4), direction: 'ai' }],
+        }),
+      },
+    ];
+
+    const comments = buildReviewComments(files);
+
+    expect(comments.map(({ line, start_line }) => ({ line, start_line }))).toEqual([
+      { line: 3, start_line: 2 },
+      { line: 23, start_line: undefined },
+    ]);
+  });
+
+  it('should fall back to the first added line of a flagged file without evidence', () => {
+    const files: FileAnalysis[] = [
+      { filename: 'src/app.js', patch, result: evaluationResult(humanVerdict) },
+      {
+        filename: 'src/ai.js',
+        patch,
+        result: evaluationResult({ ...humanVerdict, isHumanLike: false }),
+      },
+    ];
+
+    const comments = buildReviewComments(files);
+
+    expect(comments).toHaveLength(1);
+    expect(comments[0]).toMatchObject({ path: 'src/app.js', line: 2, side: 'RIGHT' });
+    expect(comments[0].body).toContain('Debug leftovers');
+  });
+});
+
+describe('reviews', () => {
+  const pullRequest = { owner: 'o', repo: 'r', pull_number: 1 };
+  const bot = { login: 'github-actions[bot]' };
+
+  it('should dismiss only its own blocking reviews', async () => {
+    const client = new FakeReviews([
+      { id: 1, state: 'CHANGES_REQUESTED', body: `${REVIEW_MARKER}\nflagged`, user: bot },
+      { id: 2, state: 'DISMISSED', body: `${REVIEW_MARKER}\nflagged`, user: bot },
+      { id: 3, state: 'CHANGES_REQUESTED', body: 'Please rename this', user: bot },
+      {
+        id: 4,
+        state: 'CHANGES_REQUESTED',
+        body: `${REVIEW_MARKER}\npasted`,
+        user: { login: 'mallory' },
+      },
+    ]);
+
+    expect(await dismissReviews(client, pullRequest, bot.login, 'Passing now')).toBe(1);
+    expect(client.dismissed.map((d) => d.review_id)).toEqual([1]);
+  });
+
+  it('should clear its own comment reviews, which cannot be dismissed', async () => {
+    const client = new FakeReviews(
+      [
+        { id: 1, state: 'COMMENTED', body: `${REVIEW_MARKER}\nflagged`, user: bot },
+        { id: 2, state: 'COMMENTED', body: 'Looks good', user: bot },
+      ],
+      { 1: [10, 11], 2: [20] }
+    );
+
+    expect(await dismissReviews(client, pullRequest, bot.login, 'Passing now')).toBe(1);
+    expect(client.dismissed).toEqual([]);
+    expect(client.deletedComments).toEqual([10, 11]);
+    expect(client.updated).toEqual([{ review_id: 1, body: 'Passing now' }]);
+  });
+
+  it('should dismiss blocking reviews past the first page', async () => {
+    const client = new FakeReviews(
+      Array.from({ length: 130 }, (_, i) => ({
+        id: i,
+        state: i === 5 || i === 120 ? 'CHANGES_REQUESTED' : 'DISMISSED',
+        body: REVIEW_MARKER,
+        user: bot,
+      }))
+    );
+
+    expect(await dismissReviews(client, pullRequest, bot.login, 'Passing now')).toBe(2);
+    expect(client.dismissed.map((d) => d.review_id)).toEqual([5, 120]);
+  });
+
+  it('should post a marked review with the requested event', async () => {
+    const client = new FakeReviews([
+      { id: 1, state: 'COMMENTED', body: `${REVIEW_MARKER}\nflagged`, user: bot },
+    ]);
+
+    await postReview(
+      client,
+      pullRequest,
+      bot.login,
+      'abc',
+      evaluationResult(humanVerdict),
+      [{ filename: 'src/app.js', patch, result: evaluationResult(humanVerdict) }],
+      'REQUEST_CHANGES'
+    );
+
+    expect(client.created).toEqual([
+      expect.objectContaining({
+        commit_id: 'abc',
+        event: 'REQUEST_CHANGES',
+        body: expect.stringContaining(REVIEW_MARKER),
+        comments: [expect.objectContaining({ path: 'src/app.js', line: 2 })],
+      }),
+    ]);
+    expect(client.updated.map((u) => u.review_id)).toEqual([1]);
+  });
+
+  it('should describe the flagged files of the given policy in the review body', async () => {
+    const client = new FakeReviews();
+    const ai = evaluationResult({
+      ...humanVerdict,
+      isHumanLike: false,
+      reasoning: 'Uniform style',
+    });
+
+    await postReview(
+      client,
+      pullRequest,
+      bot.login,
+      'abc',
+      ai,
+      [{ filename: 'src/app.js', patch, result: ai }],
+      'COMMENT',
+      { ...builtInTemplates('professional', 'humans-only'), review: '{{flagged_files}}' },
+      'humans-only'
+    );
+
+    expect((client.created[0] as { body: string }).body).toContain('src/app.js');
+  });
+
+  it('should recognize feedback modes', () => {
+    expect(isFeedbackMode('review')).toBe(true);
+    expect(isFeedbackMode('email')).toBe(false);
+  });
+});
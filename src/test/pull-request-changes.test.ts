@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fetchPullRequestCommits,
+  fetchPullRequestFiles,
+  MAX_PR_COMMITS,
+  MAX_PR_FILES,
+  paginate,
+  type PullRequestCommit,
+  type PullRequestFile,
+} from '../pull-request-changes';
+import { FakePulls } from './utils/fake-octokit';
+
+const pullRequest = { owner: 'o', repo: 'r', pull_number: 9 };
+const refs = { base: 'aaaaaaaaaa', head: 'bbbbbbbbbb' };
+
+const makeFiles = (count: number): PullRequestFile[] =>
+  Array.from({ length: count }, (_, i) => ({
+    filename: `src/file-${i}.ts`,
+    status: 'modified',
+    patch: '+x',
+  }));
+
+const makeCommits = (count: number): PullRequestCommit[] =>
+  Array.from({ length: count }, (_, i) => ({ sha: `c${i}`, commit: { message: `commit ${i}` } }));
+
+describe('paginate', () => {
+  it('should stop at the first short page', async () => {
+    const pages: number[] = [];
+    const items = await paginate(async (page) => {
+      pages.push(page);
+      return page < 3 ? makeCommits(100) : makeCommits(5);
+    });
+
+    expect(items).toHaveLength(205);
+    expect(pages).toEqual([1, 2, 3]);
+  });
+
+  it('should stop at the limit', async () => {
+    const items = await paginate(async () => makeCommits(100), 250);
+
+    expect(items).toHaveLength(250);
+  });
+});
+
+describe('fetchPullRequestFiles', () => {
+  it('should list every page of files', async () => {
+    const client = new FakePulls(makeFiles(230), []);
+    const warnings: string[] = [];
+
+    const files = await fetchPullRequestFiles(client, pullRequest, (m) => warnings.push(m));
+
+    expect(files).toHaveLength(230);
+    expect(client.calls).toEqual(['files:1', 'files:2', 'files:3']);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should warn that only the first files are evaluated past the file limit', async () => {
+    const client = new FakePulls(makeFiles(MAX_PR_FILES + 20), []);
+    const warnings: string[] = [];
+
+    const files = await fetchPullRequestFiles(client, pullRequest, (m) => warnings.push(m));
+
+    expect(files).toHaveLength(MAX_PR_FILES);
+    expect(client.calls.some((call) => call.startsWith('compare'))).toBe(false);
+    expect(warnings).toEqual([
+      'PR #9 changes at least 3000 files, the most GitHub lists for a pull request; only the first 3000 are evaluated',
+    ]);
+  });
+});
+
+describe('fetchPullRequestCommits', () => {
+  it('should compare the base and head past the commit limit', async () => {
+    const client = new FakePulls([], makeCommits(420));
+    const warnings: string[] = [];
+
+    const commits = await fetchPullRequestCommits(client, pullRequest, refs, (m) =>
+      warnings.push(m)
+    );
+
+    expect(commits).toHaveLength(420);
+    expect(commits[419].commit.message).toBe('commit 419');
+    expect(client.calls.filter((call) => call.startsWith('compare'))).toHaveLength(5);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('should keep the listed commits when the comparison has no more', async () => {
+    const client = new FakePulls([], makeCommits(MAX_PR_COMMITS));
+    const warnings: string[] = [];
+
+    const commits = await fetchPullRequestCommits(client, pullRequest, refs, (m) =>
+      warnings.push(m)
+    );
+
+    expect(commits).toHaveLength(MAX_PR_COMMITS);
+    expect(warnings[1]).toBe("The comparison didn't return more commits; using the first 250");
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fetchRepoConfig,
+  parseRepoConfig,
+  RepoConfigError,
+  renderConfigErrorOutput,
+  validateRepoConfig,
+} from '../repo-config';
+import { FakeContents, httpError } from './utils/fake-octokit';
+
+const FULL_CONFIG = `
+version: 1
+policy: humans-only
+paths:
+  include: ['src/**']
+  exclude: ['src/generated/**', '*.snap']
+  languages: [typescript, config]
+thresholds:
+  ai-confidence: 60
+authors:
+  exempt: ['dependabot[bot]']
+  exempt-bots: true
+  exempt-teams: [acme/release]
+  allowlist: acme/.github/onlyrobots-allowlist.yml
+  ai-agents: ['acme-agent[bot]']
+templates:
+  tone: professional
+  comment: 'Verdict: {{verdict}}'
+provider:
+  name: anthropic
+  model: claude-sonnet-4-0
+signals:
+  no-description: -15
+`;
+
+describe('parseRepoConfig', () => {
+  it('should map every section onto the config', () => {
+    const config = parseRepoConfig(FULL_CONFIG);
+
+    expect(config).toEqual({
+      version: 1,
+      policy: 'humans-only',
+      paths: {
+        include: ['src/**'],
+        exclude: ['src/generated/**', '*.snap'],
+        languages: ['typescript', 'config'],
+      },
+      thresholds: { aiConfidence: 60 },
+      authors: {
+        exempt: ['dependabot[bot]'],
+        exemptBots: true,
+        exemptTeams: ['acme/release'],
+        allowlist: 'acme/.github/onlyrobots-allowlist.yml',
+        aiAgents: ['acme-agent[bot]'],
+      },
+      templates: { tone: 'professional', overrides: { comment: 'Verdict: {{verdict}}' } },
+      provider: { name: 'anthropic', model: 'claude-sonnet-4-0' },
+      signals: { 'no-description': -15 },
+    });
+  });
+
+  it('should report YAML syntax errors with the file name', () => {
+    expect(() => parseRepoConfig('version: [1', '.github/onlyrobots.yml')).toThrow(
+      /^Invalid \.github\/onlyrobots\.yml: /
+    );
+  });
+});
+
+describe('validateRepoConfig', () => {
+  it('should require the version', () => {
+    expect(validateRepoConfig({ paths: {} })).toEqual({
+      ok: false,
+      errors: ['version is required (the current version is 1)'],
+    });
+  });
+
+  it('should collect every problem', () => {
+    const validation = validateRepoConfig({
+      version: 2,
+      policy: 'no-humans',
+      thresholds: { 'ai-confidence': 150 },
+      templates: { tone: 'grumpy', footer: 'x' },
+      provider: { name: 'openai', 'api-key': 'sk-123' },
+      signals: { 'no-description': 'high' },
+      paths: { include: 'src/**', exclude: ['src/{a,b'], languages: ['cobol'] },
+    });
+
+    expect(validation).toEqual({
+      ok: false,
+      errors: [
+        'version must be 1, got 2',
+        'policy must be one of: robots-only, humans-only, require-attribution, report-only',
+        'paths.languages: "cobol" is not one of: javascript, typescript, python, java, c, csharp, ruby, go, rust, swift, kotlin, scala, php, web, workflows, config',
+        'paths.include must be a list of strings',
+        'paths.exclude: "src/{a,b" is not a valid glob',
+        'thresholds.ai-confidence must be a number between 0 and 100',
+        'templates.footer is not a known setting',
+        'templates.tone must be one of: playful, professional',
+        'provider.api-key is not allowed; pass API keys as action inputs from secrets',
+        'signals.no-description must be a number between -100 and 100',
+      ],
+    });
+  });
+
+  it('should reject a config that is not a mapping', () => {
+    expect(validateRepoConfig(null)).toEqual({
+      ok: false,
+      errors: ['the config must be a mapping of settings'],
+    });
+  });
+});
+
+describe('fetchRepoConfig', () => {
+  const ref = { owner: 'o', repo: 'r', ref: 'base-sha' };
+
+  it('should read the config from the given ref', async () => {
+    const client = new FakeContents(() => ({
+      data: {
+        type: 'file',
+        encoding: 'base64',
+        content: Buffer.from('version: 1\nthresholds:\n  ai-confidence: 80\n').toString('base64'),
+      },
+    }));
+
+    const config = await fetchRepoConfig(client, ref);
+
+    expect(config?.thresholds?.aiConfidence).toBe(80);
+    expect(client.requests).toEqual([{ ...ref, path: '.github/onlyrobots.yml' }]);
+  });
+
+  it('should return undefined when there is no config', async () => {
+    const client = new FakeContents(() => {
+      throw httpError(404);
+    });
+
+    expect(await fetchRepoConfig(client, ref)).toBeUndefined();
+  });
+
+  it('should reject a directory', async () => {
+    const client = new FakeContents(() => ({ data: [] }));
+
+    await expect(fetchRepoConfig(client, ref)).rejects.toThrow(
+      '.github/onlyrobots.yml is not a file'
+    );
+  });
+});
+
+describe('renderConfigErrorOutput', () => {
+  it('should list the problems in the check run summary', () => {
+    const output = renderConfigErrorOutput(
+      new RepoConfigError('.github/onlyrobots.yml', ['version must be 1, got 2'])
+    );
+
+    expect(output.title).toBe('Invalid .github/onlyrobots.yml');
+    expect(output.summary).toContain('- version must be 1, got 2');
+  });
+});
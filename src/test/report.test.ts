@@ -0,0 +1,327 @@
+import { describe, it, expect } from 'vitest';
+import type { EvalSummary } from '../eval/runner';
+import type { PullRequestEvaluation } from '../evaluation-engine';
+import {
+  buildEvaluationReport,
+  buildSarif,
+  EVALUATION_REPORT_VERSION,
+  isReportFormat,
+  REPORT_FORMATS,
+  renderCheckRunOutput,
+  renderEvalSummary,
+  renderJobSummary,
+  renderNoFilesOutput,
+  renderReport,
+} from '../report';
+import { ruleIdOf } from '../report/sarif';
+import { evaluationResult } from './utils/evaluation-result';
+
+const patch = '@@ -1,1 +1,2 @@\n const a = 1;\n+console.log(a); // <TODO>';
+
+const evaluation: PullRequestEvaluation = {
+  overallResult: evaluationResult({
+    isHumanLike: true,
+    confidence: 75,
+    reasoning: 'Debug leftovers',
+  }),
+  fileResults: [
+    {
+      filename: 'src/app.js',
+      patch,
+      result: evaluationResult({
+        isHumanLike: true,
+        confidence: 80,
+        reasoning: 'Leftover debugging & a TODO',
+        indicators: ['Debug logging'],
+        evidence: [
+          {
+            indicator: 'Debug logging',
+            filename: 'src/app.js',
+            startLine: 2,
+            endLine: 2,
+            snippet: 'console.log(a); // <TODO>',
+            direction: 'human',
+          },
+        ],
+      }),
+    },
+    { filename: 'src/util.js', patch, result: evaluationResult() },
+    {
+      filename: 'src/big.js',
+      patch,
+      result: evaluationResult({ status: 'errored', confidence: 0, reasoning: 'Timed out' }),
+    },
+  ],
+};
+
+const pullRequest = { owner: 'o', repo: 'r', number: 7 };
+
+describe('renderReport', () => {
+  it('should render the check run as markdown', () => {
+    const report = renderReport('markdown', evaluation);
+
+    expect(report).toMatch(/^# 🚫 No humans allowed!/);
+    expect(report).toContain('### src/app.js');
+    expect(report).toContain('- **src/big.js**: Timed out');
+  });
+
+  it('should list skipped files in the check run details and the JSON report', () => {
+    const skippedFiles = [{ filename: 'pnpm-lock.yaml', reason: 'lockfile' as const }];
+
+    expect(renderReport('markdown', evaluation, { skippedFiles })).toContain(
+      '- `pnpm-lock.yaml`: lockfile'
+    );
+    expect(JSON.parse(renderReport('json', evaluation, { skippedFiles })).skippedFiles).toEqual(
+      skippedFiles
+    );
+  });
+
+  it('should render terminal text with per-file sections when verbose', () => {
+    const report = renderReport('text', evaluation, { pullRequest, verbose: true });
+
+    expect(report).toContain('🔍 Analyzing PR #7 from o/r');
+    expect(report).toContain('👤 Overall Assessment: HUMAN-WRITTEN');
+    expect(report).toContain('3. src/big.js\n   ❔ NO VERDICT (0.0%)');
+    expect(report).toContain('src/app.js:2 (human) Debug logging');
+    expect(renderReport('text', evaluation)).not.toContain('File-by-file');
+  });
+
+  it('should render the versioned evaluation report as JSON', () => {
+    const report = JSON.parse(renderReport('json', evaluation, { pullRequest }));
+
+    expect(report).toMatchObject({ version: 1, pullRequest, verdict: 'human', confidence: 75 });
+    expect(report.files).toHaveLength(3);
+  });
+
+  it('should render an escaped, self-contained HTML page', () => {
+    const report = renderReport('html', evaluation, { pullRequest });
+
+    expect(report).toMatch(/^<!DOCTYPE html>/);
+    expect(report).toContain('<title>Only Robots report for o/r#7</title>');
+    expect(report).toContain('Leftover debugging &amp; a TODO');
+    expect(report).toContain('console.log(a); // &lt;TODO&gt;');
+    expect(report).not.toMatch(/<script|<link/);
+  });
+
+  it('should render a JUnit test case per file', () => {
+    const report = renderReport('junit', evaluation, { pullRequest });
+
+    expect(report).toContain(
+      '<testsuite name="Only Robots: o/r#7" tests="3" failures="1" skipped="1">'
+    );
+    expect(report).toContain(
+      '<failure message="Looks human-written (80.0% confidence)" type="human-written">Leftover debugging &amp; a TODO'
+    );
+    expect(report).toContain('<testcase classname="onlyrobots" name="src/util.js"/>');
+    expect(report).toContain('<skipped message="Timed out"/>');
+  });
+
+  it('should word the markdown report for the policy', () => {
+    expect(renderReport('markdown', evaluation, { policy: 'report-only' })).toMatch(
+      /^# 🧑 Verdict: human-written/
+    );
+  });
+
+  it('should fail the JUnit test cases the policy flags', () => {
+    const report = renderReport('junit', evaluation, { policy: 'humans-only' });
+
+    expect(report).toContain('tests="3" failures="1" skipped="1"');
+    expect(report).toContain(
+      '<failure message="Looks AI-generated (90.0% confidence)" type="ai-generated">'
+    );
+    expect(report).toContain('<testcase classname="onlyrobots" name="src/app.js"/>');
+    expect(renderReport('junit', evaluation, { policy: 'report-only' })).not.toContain('<failure');
+  });
+
+  it('should report the files the policy flags as SARIF', () => {
+    const sarif = JSON.parse(renderReport('sarif', evaluation, { policy: 'humans-only' }));
+    const uris = sarif.runs[0].results.map(
+      (result: { locations: Array<{ physicalLocation: { artifactLocation: { uri: string } } }> }) =>
+        result.locations[0].physicalLocation.artifactLocation.uri
+    );
+
+    expect(uris).toEqual(['src/util.js']);
+    expect(sarif.runs[0].results[0].ruleId).toBe('ai-generated-code');
+  });
+
+  it('should recognize report formats', () => {
+    expect(REPORT_FORMATS).toContain('junit');
+    expect(isReportFormat('html')).toBe(true);
+    expect(isReportFormat('pdf')).toBe(false);
+  });
+});
+
+describe('buildSarif', () => {
+  it('should report a result per indicator of each human-written file', () => {
+    const sarif = buildSarif(evaluation);
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual(['debug-logging']);
+    expect(run.results).toHaveLength(1);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'debug-logging',
+      ruleIndex: 0,
+      level: 'warning',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/app.js' },
+            region: { startLine: 2, endLine: 2, snippet: { text: 'console.log(a); // <TODO>' } },
+          },
+        },
+      ],
+    });
+  });
+
+  it('should place uncited indicators on the first added line', () => {
+    const sarif = buildSarif({
+      overallResult: evaluationResult({ isHumanLike: true }),
+      fileResults: [
+        {
+          filename: 'src/app.js',
+          patch,
+          result: evaluationResult({ isHumanLike: true, indicators: ['heuristic:todo-comment'] }),
+        },
+        { filename: 'src/other.js', patch, result: evaluationResult({ isHumanLike: true }) },
+      ],
+    });
+    const [run] = sarif.runs;
+
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual([
+      'heuristic/todo-comment',
+      'human-written-code',
+    ]);
+    expect(
+      run.results.map((result) => [
+        result.ruleId,
+        result.locations[0].physicalLocation.artifactLocation.uri,
+        result.locations[0].physicalLocation.region.startLine,
+      ])
+    ).toEqual([
+      ['heuristic/todo-comment', 'src/app.js', 2],
+      ['human-written-code', 'src/other.js', 2],
+    ]);
+  });
+
+  it('should slugify indicators into rule ids', () => {
+    expect(ruleIdOf('Debug console.log statements!')).toBe('debug-console-log-statements');
+    expect(ruleIdOf('heuristic:manual_debug')).toBe('heuristic/manual-debug');
+  });
+});
+
+describe('buildEvaluationReport', () => {
+  it('should summarize the verdict and every file', () => {
+    const generatedAt = new Date('2025-01-01T12:00:00Z');
+    const report = buildEvaluationReport(evaluation, { pullRequest, generatedAt });
+
+    expect(report).toMatchObject({
+      version: EVALUATION_REPORT_VERSION,
+      generatedAt: '2025-01-01T12:00:00.000Z',
+      verdict: 'human',
+      humanFilesCount: 1,
+      detectedTools: [],
+    });
+    expect(report.files.map((file) => [file.filename, file.verdict, file.status])).toEqual([
+      ['src/app.js', 'human', 'ok'],
+      ['src/util.js', 'ai', 'ok'],
+      ['src/big.js', 'inconclusive', 'errored'],
+    ]);
+    expect(report.files[0].evidence).toHaveLength(1);
+    expect(report.files[1]).toMatchObject({ cached: false, evidence: [] });
+  });
+
+  it('should detect AI tools named in the reasoning and indicators', () => {
+    const report = buildEvaluationReport({
+      overallResult: evaluationResult({
+        reasoning: 'Commits are signed off by Claude Code; the cursor handling is tidy',
+        indicators: ['copilot-suggestion'],
+      }),
+      fileResults: [],
+    });
+
+    expect(report.detectedTools).toEqual(['Claude Code', 'GitHub Copilot']);
+  });
+});
+
+describe('renderJobSummary', () => {
+  it('should lead with the check run summary and add files, signals and run stats', () => {
+    const withSignals: PullRequestEvaluation = {
+      ...evaluation,
+      overallResult: {
+        ...evaluation.overallResult,
+        contextSignals: ['perfect-conventional-commits'],
+      },
+    };
+    const summary = renderJobSummary(withSignals, {
+      engine: 'llm',
+      model: 'openai:gpt-4o-mini',
+      usage: { requests: 3, inputTokens: 12345, outputTokens: 678 },
+      durationMs: 4200,
+    });
+    const checkRun = renderCheckRunOutput(withSignals);
+
+    expect(summary.startsWith(`## ${checkRun.title}\n\n${checkRun.summary}`)).toBe(true);
+    expect(summary).toContain('| src/app.js | 👤 Human | 80.0% | `Debug logging` |');
+    expect(summary).toContain('| src/big.js | ❔ No verdict | 0.0% | - |');
+    expect(summary).toContain('### PR context signals\n\n- `perfect-conventional-commits`');
+    expect(summary).toContain('| Input tokens | 12,345 |');
+    expect(summary).toContain('| Duration | 4.2s |');
+  });
+
+  it('should leave out token usage when no LLM was used', () => {
+    const summary = renderJobSummary(evaluation, { engine: 'heuristic', durationMs: 10 });
+
+    expect(summary).not.toContain('tokens');
+    expect(summary).not.toContain('PR context signals');
+  });
+});
+
+describe('renderNoFilesOutput', () => {
+  it('should list the files that were skipped', () => {
+    const output = renderNoFilesOutput([
+      { filename: 'package-lock.json', reason: 'lockfile' },
+      { filename: 'docs/guide.md', reason: 'unselected-language' },
+    ]);
+
+    expect(output.summary).toContain('All 2 changed file(s) were skipped');
+    expect(output.text).toContain('- `package-lock.json`');
+    expect(output.text).toContain('- `docs/guide.md`');
+  });
+});
+
+describe('renderEvalSummary', () => {
+  const result = (title: string, correct: boolean) => ({
+    pr: { url: `https://github.com/o/r/pull/${title.length}`, title, author: 'alice' },
+    expected: { isAI: true, tool: 'Claude Code' },
+    actual: { isAI: correct, confidence: 72.4, reasoning: '', indicators: [] },
+    correct,
+    duration: 1000,
+  });
+  const summary: EvalSummary = {
+    totalPRs: 4,
+    correct: 3,
+    incorrect: 1,
+    accuracy: 0.75,
+    falsePositives: 0,
+    falseNegatives: 1,
+    byTool: {
+      'Claude Code': { total: 3, correct: 2, accuracy: 2 / 3 },
+      human: { total: 1, correct: 1, accuracy: 1 },
+    },
+    avgConfidence: { overall: 80, correct: 85, incorrect: 72 },
+    results: [result('Add feature', true), result('Fix a | b parsing', false)],
+  };
+
+  it('should report accuracy, categories and misclassified PRs', () => {
+    const markdown = renderEvalSummary(summary);
+
+    expect(markdown).toContain('🔴 **Overall Accuracy: 75.0%** (3/4 correct)');
+    expect(markdown).toContain('| ⚠️ False Negatives (AI → Human) | 1 | 25.0% |');
+    expect(markdown.indexOf('Claude Code | 66.7%')).toBeLessThan(markdown.indexOf('human |'));
+    expect(markdown).toContain(
+      '| [Fix a \\| b parsing](https://github.com/o/r/pull/17) | AI (Claude Code) | Human | 72% |'
+    );
+    expect(markdown).not.toContain('Variant Comparison');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryAfterMs, isRetryableError, TimeoutError, withRetry } from '../retry';
+
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) });
+}
+
+describe('withRetry', () => {
+  it('should retry rate limits with exponential backoff', async () => {
+    const delays: number[] = [];
+    let calls = 0;
+
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw apiError(429);
+        return 'ok';
+      },
+      {
+        retries: 3,
+        baseDelayMs: 100,
+        random: () => 1,
+        sleep: async (ms) => {
+          delays.push(ms);
+        },
+      }
+    );
+
+    expect(result).toBe('ok');
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('should honor Retry-After over the computed backoff', async () => {
+    const delays: number[] = [];
+    let calls = 0;
+
+    await withRetry(
+      async () => {
+        if (calls++ === 0) throw apiError(503, { 'retry-after': '7' });
+        return 'ok';
+      },
+      {
+        retries: 1,
+        sleep: async (ms) => {
+          delays.push(ms);
+        },
+      }
+    );
+
+    expect(delays).toEqual([7000]);
+  });
+
+  it('should not retry client errors', async () => {
+    let calls = 0;
+
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw apiError(401);
+        },
+        { retries: 3, sleep: async () => {} }
+      )
+    ).rejects.toThrow('HTTP 401');
+    expect(calls).toBe(1);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    let calls = 0;
+
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw apiError(500);
+        },
+        { retries: 2, sleep: async () => {} }
+      )
+    ).rejects.toThrow('HTTP 500');
+    expect(calls).toBe(3);
+  });
+
+  it('should abort attempts that exceed the timeout', async () => {
+    let aborted = false;
+
+    await expect(
+      withRetry(
+        (signal) =>
+          new Promise((resolve) => {
+            signal.addEventListener('abort', () => {
+              aborted = true;
+            });
+            setTimeout(resolve, 1000);
+          }),
+        { retries: 0, timeoutMs: 10 }
+      )
+    ).rejects.toBeInstanceOf(TimeoutError);
+    expect(aborted).toBe(true);
+  });
+});
+
+describe('retry helpers', () => {
+  it('should classify transient failures as retryable', () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(502))).toBe(true);
+    expect(isRetryableError(new TimeoutError(10))).toBe(true);
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+  });
+
+  it('should read Retry-After in milliseconds, seconds and HTTP-date form', () => {
+    expect(getRetryAfterMs(apiError(429, { 'retry-after-ms': '250' }))).toBe(250);
+    expect(getRetryAfterMs(apiError(429, { 'retry-after': '3' }))).toBe(3000);
+    expect(
+      getRetryAfterMs(apiError(429, { 'retry-after': new Date(Date.now() + 60_000).toUTCString() }))
+    ).toBeGreaterThan(50_000);
+    expect(getRetryAfterMs(apiError(429))).toBeUndefined();
+  });
+});
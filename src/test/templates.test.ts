@@ -0,0 +1,177 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import type { FileAnalysis } from '../llm-evaluator';
+import { renderCheckRunOutput } from '../report';
+import {
+  buildTemplateValues,
+  builtInTemplates,
+  isTone,
+  loadTemplates,
+  renderTemplate,
+} from '../templates';
+import { evaluationResult } from './utils/evaluation-result';
+
+const patch = '@@ -1,1 +1,2 @@\n const a = 1;\n+console.log(a); // TODO remove';
+
+function human(): FileAnalysis[] {
+  return [
+    {
+      filename: 'src/app.js',
+      patch,
+      result: evaluationResult({
+        isHumanLike: true,
+        confidence: 80,
+        reasoning: 'Leftover debugging',
+        indicators: ['Debug logging', 'heuristic:todo-comment'],
+        evidence: [
+          {
+            indicator: 'Debug logging',
+            filename: 'src/app.js',
+            startLine: 2,
+            endLine: 2,
+            snippet: 'console.log(a); // TODO remove',
+            direction: 'human',
+          },
+        ],
+      }),
+    },
+  ];
+}
+
+describe('renderTemplate', () => {
+  const values = buildTemplateValues(evaluationResult({ reasoning: 'Clean' }), [], {
+    fileCount: 2,
+  });
+
+  it('should fill placeholders', () => {
+    expect(renderTemplate('{{file_count}} file(s): {{ reasoning }}', values)).toBe(
+      '2 file(s): Clean'
+    );
+  });
+
+  it('should drop sections whose value is empty', () => {
+    const template =
+      'Start\n\n{{#cached_count}}\nCached: {{cached_count}}\n{{/cached_count}}\n\nEnd';
+
+    expect(renderTemplate(template, values)).toBe('Start\n\nEnd');
+    expect(renderTemplate(template, { ...values, cached_count: '1' })).toBe(
+      'Start\n\nCached: 1\n\nEnd'
+    );
+  });
+
+  it('should render unknown placeholders as empty text', () => {
+    expect(renderTemplate('a{{nope}}b', values)).toBe('ab');
+  });
+});
+
+describe('buildTemplateValues', () => {
+  it('should split heuristic patterns from indicators and render evidence', () => {
+    const files = human();
+    const values = buildTemplateValues(files[0].result, files, { fileCount: 1 });
+
+    expect(values.verdict).toBe('human');
+    expect(values.confidence).toBe('80.0');
+    expect(values.indicators).toBe('- Debug logging');
+    expect(values.heuristic_patterns).toBe('- todo-comment');
+    expect(values.evidence).toContain('`src/app.js:2` (human) Debug logging');
+    expect(values.flagged_files).toContain('### src/app.js');
+    expect(values.file_table).toContain('| src/app.js | Human | 80.0% |');
+  });
+
+  it('should list files without a valid judgment', () => {
+    const files: FileAnalysis[] = [
+      {
+        filename: 'a.js',
+        patch,
+        result: evaluationResult({ status: 'errored', reasoning: 'Timed out' }),
+      },
+    ];
+    const values = buildTemplateValues(files[0].result, files, { fileCount: 1 });
+
+    expect(values.verdict).toBe('inconclusive');
+    expect(values.unjudged_files).toBe('- **a.js**: Timed out');
+  });
+});
+
+describe('built-in templates', () => {
+  it('should keep the playful copy by default', () => {
+    const files = human();
+    const output = renderCheckRunOutput({ overallResult: files[0].result, fileResults: files });
+
+    expect(output.title).toBe('🚫 No humans allowed! Flesh-based coding detected!');
+    expect(output.summary).toContain('**🔍 Human Fingerprints Found:**\n- Debug logging');
+    expect(output.summary).not.toContain('Cached Judgments');
+  });
+
+  it('should offer a professional tone without the jokes', () => {
+    const files = human();
+    const templates = builtInTemplates('professional');
+    const output = renderCheckRunOutput(
+      { overallResult: files[0].result, fileResults: files },
+      { templates }
+    );
+    const comment = renderTemplate(
+      templates.comment,
+      buildTemplateValues(files[0].result, files, { fileCount: 1 })
+    );
+
+    expect(output.title).toBe('Human-written code detected');
+    expect(comment).toContain('**80.0%** confidence');
+    expect(comment).toContain('### Evidence');
+    expect(`${output.summary}${output.text}${comment}`).not.toMatch(/robot|silicon|🤖/i);
+  });
+
+  it('should reword verdicts for other policies', () => {
+    for (const tone of ['playful', 'professional'] as const) {
+      const robotsOnly = builtInTemplates(tone);
+      const humansOnly = builtInTemplates(tone, 'humans-only');
+
+      expect(humansOnly['summary-human']).not.toBe(robotsOnly['summary-ai']);
+      expect(humansOnly['summary-ai']).not.toBe(robotsOnly['summary-human']);
+      expect(builtInTemplates(tone, 'report-only')['title-human']).not.toBe(
+        robotsOnly['title-human']
+      );
+    }
+  });
+
+  it('should explain how to attribute AI changes under require-attribution', () => {
+    const output = renderCheckRunOutput(
+      {
+        overallResult: evaluationResult({ isHumanLike: true, reasoning: 'No attribution found.' }),
+        fileResults: [],
+      },
+      { templates: builtInTemplates('professional', 'require-attribution') }
+    );
+
+    expect(output.title).toBe('No AI attribution found');
+    expect(output.summary).toContain('No attribution found.');
+    expect(output.summary).toContain('Co-Authored-By: Claude <noreply@anthropic.com>');
+  });
+
+  it('should recognize tones', () => {
+    expect(isTone('professional')).toBe(true);
+    expect(isTone('grumpy')).toBe(false);
+  });
+});
+
+describe('loadTemplates', () => {
+  it('should override built-in templates with files from the directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'onlyrobots-templates-'));
+    await fs.writeFile(path.join(dir, 'comment.md'), 'Custom {{confidence}}');
+    await fs.writeFile(path.join(dir, 'unrelated.md'), 'ignored');
+
+    const templates = await loadTemplates('professional', dir);
+
+    expect(templates.comment).toBe('Custom {{confidence}}');
+    expect(templates['title-ai']).toBe(builtInTemplates('professional')['title-ai']);
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('should reject a missing directory', async () => {
+    await expect(loadTemplates('playful', '/nonexistent/templates')).rejects.toThrow(
+      'Template directory not found'
+    );
+  });
+});
@@ -0,0 +1,12 @@
+import type { LLMEvaluationResult } from '../../llm-evaluator';
+
+/** A valid AI-generated verdict, with whatever fields a test cares about replaced. */
+export function evaluationResult(partial: Partial<LLMEvaluationResult> = {}): LLMEvaluationResult {
+  return {
+    isHumanLike: false,
+    confidence: 90,
+    reasoning: 'Consistent AI-generated patterns',
+    indicators: [],
+    ...partial,
+  };
+}
@@ -0,0 +1,302 @@
+import type { TeamMembershipRef, TeamsClient } from '../../author-policy';
+import type { CheckAnnotation, CheckRunOutput, ChecksClient } from '../../check-run';
+import type { OverridesClient } from '../../override';
+import type { CommentsClient } from '../../pr-comment';
+import type { ReviewsClient } from '../../pr-review';
+import {
+  MAX_PR_COMMITS,
+  MAX_PR_FILES,
+  type PullRequestCommit,
+  type PullRequestFile,
+  type PullsClient,
+} from '../../pull-request-changes';
+import type { ContentRef, ContentsClient } from '../../repo-config';
+
+export const BOT_LOGIN = 'github-actions[bot]';
+
+export function httpError(status: number, message = 'Not Found'): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function pageOf<T>(items: T[], perPage: number, page: number): T[] {
+  return items.slice((page - 1) * perPage, page * perPage);
+}
+
+export class FakeChecks implements ChecksClient {
+  readonly calls: Array<{ method: string; checkRunId?: number; annotations: CheckAnnotation[] }> =
+    [];
+
+  rest = {
+    checks: {
+      create: async (params: { output: { annotations?: CheckAnnotation[] } }) => {
+        this.calls.push({ method: 'create', annotations: params.output.annotations ?? [] });
+        return { data: { id: 7, html_url: 'https://github.com/check/7' } };
+      },
+      update: async (params: {
+        check_run_id: number;
+        output: { annotations: CheckAnnotation[] };
+      }) => {
+        this.calls.push({
+          method: 'update',
+          checkRunId: params.check_run_id,
+          annotations: params.output.annotations,
+        });
+        return {};
+      },
+    },
+  };
+}
+
+export type FakeComment = { id: number; body: string; user: { login: string } };
+
+export class FakeComments implements CommentsClient {
+  private nextId: number;
+
+  constructor(
+    public comments: FakeComment[] = [],
+    private botLogin: string = BOT_LOGIN
+  ) {
+    this.nextId = Math.max(0, ...comments.map((c) => c.id)) + 1;
+  }
+
+  rest = {
+    issues: {
+      listComments: async ({ per_page, page }: { per_page: number; page: number }) => ({
+        data: pageOf(this.comments, per_page, page),
+      }),
+      createComment: async (params: { body: string }) => {
+        this.comments.push({
+          id: this.nextId++,
+          body: params.body,
+          user: { login: this.botLogin },
+        });
+        return {};
+      },
+      updateComment: async (params: { comment_id: number; body: string }) => {
+        const comment = this.comments.find((c) => c.id === params.comment_id);
+        if (comment) comment.body = params.body;
+        return {};
+      },
+      deleteComment: async (params: { comment_id: number }) => {
+        this.comments = this.comments.filter((c) => c.id !== params.comment_id);
+        return {};
+      },
+    },
+  };
+
+  addComments(count: number, login: string, body = 'Comment') {
+    for (let i = 0; i < count; i++) {
+      this.comments.push({ id: this.nextId++, body, user: { login } });
+    }
+  }
+}
+
+export type FakeReview = {
+  id: number;
+  state: string;
+  body: string | null;
+  user: { login: string };
+};
+
+export class FakeReviews implements ReviewsClient {
+  readonly created: unknown[] = [];
+  readonly dismissed: Array<{ review_id: number; message: string }> = [];
+  readonly updated: Array<{ review_id: number; body: string }> = [];
+  readonly deletedComments: number[] = [];
+
+  /** `reviewComments` maps a review's id to the ids of its inline comments. */
+  constructor(
+    private reviews: FakeReview[] = [],
+    private reviewComments: Record<number, number[]> = {}
+  ) {}
+
+  rest = {
+    pulls: {
+      createReview: async (params: unknown) => {
+        this.created.push(params);
+        return {};
+      },
+      listReviews: async ({ per_page, page }: { per_page: number; page: number }) => ({
+        data: pageOf(this.reviews, per_page, page),
+      }),
+      dismissReview: async (params: { review_id: number; message: string }) => {
+        this.dismissed.push({ review_id: params.review_id, message: params.message });
+        return {};
+      },
+      updateReview: async (params: { review_id: number; body: string }) => {
+        this.updated.push({ review_id: params.review_id, body: params.body });
+        return {};
+      },
+      listCommentsForReview: async (params: {
+        review_id: number;
+        per_page: number;
+        page: number;
+      }) => ({
+        data: pageOf(this.reviewComments[params.review_id] ?? [], params.per_page, params.page).map(
+          (id) => ({ id })
+        ),
+      }),
+      deleteReviewComment: async (params: { comment_id: number }) => {
+        this.deletedComments.push(params.comment_id);
+        return {};
+      },
+    },
+  };
+}
+
+export class FakeContents implements ContentsClient {
+  readonly requests: ContentRef[] = [];
+
+  constructor(private respond: (ref: ContentRef) => { data: unknown }) {}
+
+  /** Serve plain-text files keyed by `owner/repo/path`, and 404 for anything else. */
+  static of(files: Record<string, string>): FakeContents {
+    return new FakeContents(({ owner, repo, path }) => {
+      const content = files[`${owner}/${repo}/${path}`];
+      if (content === undefined) {
+        throw httpError(404);
+      }
+      return { data: { type: 'file', content } };
+    });
+  }
+
+  rest = {
+    repos: {
+      getContent: async (params: ContentRef) => {
+        this.requests.push(params);
+        return this.respond(params);
+      },
+    },
+  };
+}
+
+/** Team memberships keyed by `org/team`; `forbidden` teams can't be read by the token. */
+export class FakeTeams implements TeamsClient {
+  constructor(private teams: Record<string, string[] | 'forbidden'> = {}) {}
+
+  rest = {
+    teams: {
+      getMembershipForUserInOrg: async ({ org, team_slug, username }: TeamMembershipRef) => {
+        const members = this.teams[`${org}/${team_slug}`];
+        if (members === 'forbidden') {
+          throw httpError(403, 'Resource not accessible by integration');
+        }
+        if (!members?.includes(username)) {
+          throw httpError(404);
+        }
+        return { data: { state: 'active' } };
+      },
+    },
+  };
+}
+
+/** Teams and plain-text files of an organization, for author exemptions. */
+export class FakeOrg implements TeamsClient, ContentsClient {
+  readonly warnings: string[] = [];
+  warn = (message: string) => this.warnings.push(message);
+  rest: FakeTeams['rest'] & FakeContents['rest'];
+
+  constructor(
+    teams: Record<string, string[] | 'forbidden'> = {},
+    files: Record<string, string> = {}
+  ) {
+    this.rest = { ...new FakeTeams(teams).rest, ...FakeContents.of(files).rest };
+  }
+}
+
+// Serves pages like GitHub: the PR endpoints stop at their limits, the comparison's commits don't
+export class FakePulls implements PullsClient {
+  readonly calls: string[] = [];
+
+  constructor(
+    private files: PullRequestFile[],
+    private commits: PullRequestCommit[]
+  ) {}
+
+  rest = {
+    pulls: {
+      listFiles: async ({ per_page, page }: { per_page: number; page: number }) => {
+        this.calls.push(`files:${page}`);
+        return { data: pageOf(this.files.slice(0, MAX_PR_FILES), per_page, page) };
+      },
+      listCommits: async ({ per_page, page }: { per_page: number; page: number }) => {
+        this.calls.push(`commits:${page}`);
+        return { data: pageOf(this.commits.slice(0, MAX_PR_COMMITS), per_page, page) };
+      },
+    },
+    repos: {
+      compareCommitsWithBasehead: async (params: {
+        basehead: string;
+        per_page: number;
+        page: number;
+      }) => {
+        this.calls.push(`compare:${params.basehead}:${params.page}`);
+        return {
+          data: {
+            commits: pageOf(this.commits, params.per_page, params.page),
+            total_commits: this.commits.length,
+          },
+        };
+      },
+    },
+  };
+}
+
+/**
+ * Collaborator permissions keyed by login, the check runs on the head commit and the
+ * logins that added the `onlyrobots:approved` label, oldest first.
+ */
+export class FakeOverrides implements OverridesClient {
+  readonly updates: Array<{ check_run_id: number; conclusion: string; output: CheckRunOutput }> =
+    [];
+  readonly warnings: string[] = [];
+  warn = (message: string) => this.warnings.push(message);
+
+  constructor(
+    private permissions: Record<string, string> = {},
+    private checkRuns: Array<{ id: number; summary: string }> = [],
+    private labelers: string[] = []
+  ) {}
+
+  rest = {
+    checks: {
+      listForRef: async () => ({
+        data: {
+          check_runs: this.checkRuns.map(({ id, summary }) => ({
+            id,
+            output: { title: 'Human-written code detected', summary, text: 'Details' },
+          })),
+        },
+      }),
+      update: async (params: {
+        check_run_id: number;
+        conclusion: 'success';
+        output: CheckRunOutput;
+      }) => {
+        this.updates.push(params);
+        return {};
+      },
+    },
+    repos: {
+      getCollaboratorPermissionLevel: async ({ username }: { username: string }) => {
+        const permission = this.permissions[username];
+        if (!permission) {
+          throw httpError(404);
+        }
+        return { data: { permission } };
+      },
+    },
+    issues: {
+      listEvents: async () => ({
+        data: [
+          { event: 'labeled', actor: { login: 'bob' }, label: { name: 'bug' } },
+          ...this.labelers.map((login) => ({
+            event: 'labeled',
+            actor: { login },
+            label: { name: 'onlyrobots:approved' },
+          })),
+        ],
+      }),
+    },
+  };
+}
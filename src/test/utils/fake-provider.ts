@@ -0,0 +1,28 @@
+import type { LLMEvaluationResult } from '../../llm-evaluator';
+import type { CompletionRequest, CompletionResponse, LLMProvider } from '../../llm-provider';
+import { evaluationResult } from './evaluation-result';
+
+type Responder = (request: CompletionRequest) => string | CompletionResponse;
+
+/**
+ * In-memory provider for tests. Records every request and answers with whatever the
+ * responder returns, so evaluator logic can be exercised without an API key.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-model';
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private responder: Responder) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.requests.push(request);
+    const response = this.responder(request);
+    return typeof response === 'string' ? { content: response } : response;
+  }
+}
+
+/** The JSON a provider answers with for `evaluationResult(result)`. */
+export function judgment(result: Partial<LLMEvaluationResult> = {}): string {
+  return JSON.stringify(evaluationResult(result));
+}
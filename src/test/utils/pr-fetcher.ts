@@ -1,5 +1,6 @@
 import { Octokit } from '@octokit/rest';
 import type { FileToEvaluate, PRContext } from '../../llm-evaluator';
+import { fetchPullRequestCommits, fetchPullRequestFiles } from '../../pull-request-changes';
 
 export interface PRExample {
   id: string;
@@ -48,21 +49,13 @@ export class PRFetcher {
       pull_number: prNum,
     });
 
-    // Fetch files
-    const { data: files } = await this.octokit.pulls.listFiles({
-      owner,
-      repo,
-      pull_number: prNum,
-      per_page: 100,
-    });
-
-    // Fetch commits
-    const { data: commits } = await this.octokit.pulls.listCommits({
-      owner,
-      repo,
-      pull_number: prNum,
-      per_page: 100,
-    });
+    // Fetch files and commits, past the first page for large PRs
+    const pullRequest = { owner, repo, pull_number: prNum };
+    const refs = { base: pr.base.sha, head: pr.head.sha };
+    const [files, commits] = await Promise.all([
+      fetchPullRequestFiles(this.octokit, pullRequest, console.warn),
+      fetchPullRequestCommits(this.octokit, pullRequest, refs, console.warn),
+    ]);
 
     // Convert to our format
     const fileChanges: FileToEvaluate[] = files.map((file) => ({
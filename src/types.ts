@@ -1,6 +1,25 @@
 export interface ActionConfig {
   githubToken: string;
-  openaiApiKey: string;
+  openaiApiKey?: string;
+  llmProvider?: string;
+  llmModel?: string;
+  llmBaseUrl?: string;
+  llmApiKey?: string;
+  llmMaxRetries?: number;
+  llmTimeoutSeconds?: number;
+  concurrency?: number;
+  evaluationMode?: string;
+  tokenBudget?: number;
+  cacheDir?: string;
+  skipCache?: boolean;
+  engine?: string;
+  heuristicWeight?: number;
+  postComment?: boolean;
+  resolvedComment?: string;
+  tone?: string;
+  templatesPath?: string;
+  configPath?: string;
+  policy?: string;
   owner: string;
   repo: string;
   prNumber: number;